@@ -1,28 +1,34 @@
-import { useEffect } from 'react';
-import { Header, ConversationCanvas } from './components';
-import { useConversationStore } from './store';
+import { Header, StorageIssueBanner, SessionSidebar, ConversationCanvas, SettingsPanel, CredentialsPanel, StorageCleanupPanel } from './components';
 import { ThemeProvider } from './contexts/ThemeContext';
 import './App.css';
 
 function AppContent() {
-  const { sessions, createSession } = useConversationStore();
-
-  // Initialize with a session if none exists
-  useEffect(() => {
-    if (sessions.length === 0) {
-      createSession('Welcome to Lattice');
-    }
-  }, [sessions.length, createSession]);
-
   return (
     <div className="h-screen bg-canvas-bg-light dark:bg-canvas-bg-dark flex flex-col overflow-hidden transition-colors duration-250">
       {/* Header */}
       <Header />
 
-      {/* Main Canvas Area */}
-      <main className="flex-1 relative overflow-hidden">
-        <ConversationCanvas className="w-full h-full" />
-      </main>
+      {/* Saved data that failed to load */}
+      <StorageIssueBanner />
+
+      <div className="flex-1 flex min-h-0">
+        {/* Session List */}
+        <SessionSidebar />
+
+        {/* Main Canvas Area */}
+        <main className="flex-1 relative overflow-hidden">
+          <ConversationCanvas className="w-full h-full" />
+        </main>
+      </div>
+
+      {/* Session Settings */}
+      <SettingsPanel />
+
+      {/* Provider API Keys */}
+      <CredentialsPanel />
+
+      {/* Freeing Browser Storage */}
+      <StorageCleanupPanel />
 
       {/* Professional Background Grid Pattern */}
       <div className="fixed inset-0 -z-10 overflow-hidden pointer-events-none">
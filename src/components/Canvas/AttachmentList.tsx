@@ -0,0 +1,66 @@
+import React from 'react';
+import { FileText, FileCode, X } from 'lucide-react';
+import { formatFileSize, toDataUrl } from '../../services/attachments';
+import type { Attachment } from '../../types';
+import { cn } from '../../utils';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (attachmentId: string) => void; // Shows a remove button on each attachment
+  className?: string;
+}
+
+/**
+ * Image thumbnails and file chips for a prompt's attachments
+ */
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove, className }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      {attachments.map(attachment => {
+        const title = `${attachment.name} · ${formatFileSize(attachment.size)}`;
+        const removeButton = onRemove && (
+          <button
+            type="button"
+            onClick={() => onRemove(attachment.id)}
+            className="flex-shrink-0 rounded text-secondary-500 hover:text-secondary-800 dark:text-secondary-400 dark:hover:text-secondary-100"
+            title={`Remove ${attachment.name}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        );
+
+        if (attachment.kind === 'image') {
+          return (
+            <div key={attachment.id} className="relative group" title={title}>
+              <img
+                src={toDataUrl(attachment)}
+                alt={attachment.name}
+                className="w-14 h-14 object-cover rounded-lg border border-secondary-200 dark:border-secondary-700"
+              />
+              {removeButton && (
+                <div className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-white dark:bg-secondary-800 shadow-soft">
+                  {removeButton}
+                </div>
+              )}
+            </div>
+          );
+        }
+
+        const Icon = attachment.kind === 'pdf' ? FileText : FileCode;
+        return (
+          <div
+            key={attachment.id}
+            className="flex items-center gap-1.5 max-w-[200px] px-2 py-1 rounded-lg text-xs bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300"
+            title={title}
+          >
+            <Icon className="w-3 h-3 flex-shrink-0 text-secondary-500 dark:text-secondary-400" />
+            <span className="truncate">{attachment.name}</span>
+            {removeButton}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
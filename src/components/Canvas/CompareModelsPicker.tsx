@@ -0,0 +1,71 @@
+import React from 'react';
+import { useAvailableModels } from '../../hooks';
+import { getAvailableProviders } from '../../services/providerRegistry';
+import type { ModelSelection } from '../../types';
+import { cn } from '../../utils';
+
+interface CompareModelsPickerProps {
+  value: ModelSelection[];
+  onChange: (value: ModelSelection[]) => void;
+  className?: string;
+}
+
+const isSameModel = (a: ModelSelection, b: ModelSelection) => a.providerId === b.providerId && a.model === b.model;
+
+/**
+ * Checklist of every available model, grouped by provider, for comparison branches
+ */
+export const CompareModelsPicker: React.FC<CompareModelsPickerProps> = ({ value, onChange, className }) => {
+  const models = useAvailableModels();
+  const providers = getAvailableProviders();
+
+  const toggle = (selection: ModelSelection) => {
+    onChange(value.some(selected => isSameModel(selected, selection))
+      ? value.filter(selected => !isSameModel(selected, selection))
+      : [...value, selection]);
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-2 text-xs', className)}>
+      <div className="max-h-48 overflow-y-auto flex flex-col gap-2 pr-1">
+        {providers.map(provider => {
+          const providerModels = models.filter(model => model.providerId === provider.id);
+          if (providerModels.length === 0) return null;
+
+          return (
+            <div key={provider.id}>
+              <div className="font-semibold text-secondary-700 dark:text-secondary-300 mb-1">{provider.displayName}</div>
+              <div className="flex flex-wrap gap-1">
+                {providerModels.map(model => {
+                  const selection = { providerId: model.providerId, model: model.id };
+                  const isSelected = value.some(selected => isSameModel(selected, selection));
+                  return (
+                    <button
+                      key={`${model.providerId}:${model.id}`}
+                      type="button"
+                      onClick={() => toggle(selection)}
+                      className={cn(
+                        'px-2 py-1 rounded-md transition-colors',
+                        isSelected
+                          ? 'bg-primary-600 text-white'
+                          : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300 hover:bg-secondary-200 dark:hover:bg-secondary-700'
+                      )}
+                      aria-pressed={isSelected}
+                    >
+                      {model.displayName}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-secondary-500 dark:text-secondary-400">
+        {value.length < 2
+          ? 'Pick at least two models; each answers the prompt in its own node.'
+          : `The prompt goes to ${value.length} models at once.`}
+      </p>
+    </div>
+  );
+};
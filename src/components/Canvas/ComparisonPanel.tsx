@@ -0,0 +1,170 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, Columns3, Crosshair, AlertTriangle, Trophy } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+import { useConversationStore, useSettingsStore } from '../../store';
+import { getModelDisplayName } from '../../services/providerRegistry';
+import { formatCost, formatDuration, formatTokens, getNodeCost } from '../../services/usage';
+import type { ConversationNode } from '../../types';
+import { cn } from '../../utils';
+
+interface ComparisonPanelProps {
+  groupId: string;
+  onClose: () => void;
+  onFocusNode: (nodeId: string) => void;
+  onPickVariant: (nodeId: string) => void;
+}
+
+const getModelLabel = (node: ConversationNode): string => {
+  const source = node.metadata?.providerId && node.metadata.model
+    ? { providerId: node.metadata.providerId, model: node.metadata.model }
+    : node.config?.model;
+  return source ? getModelDisplayName(source.providerId, source.model) : 'Default model';
+};
+
+/**
+ * The answers of a comparison group in columns, with latency and token counts
+ */
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ groupId, onClose, onFocusNode, onPickVariant }) => {
+  const { getActiveSession, streamingState } = useConversationStore();
+  const priceOverrides = useSettingsStore(state => state.priceOverrides);
+
+  const nodes = (getActiveSession()?.canvas.nodes ?? [])
+    .filter(node => node.variant?.groupId === groupId)
+    .sort((a, b) => (a.variant?.index ?? 0) - (b.variant?.index ?? 0));
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // The group is gone, e.g. its nodes were deleted
+  useEffect(() => {
+    if (nodes.length === 0) onClose();
+  }, [nodes.length, onClose]);
+
+  const prompt = nodes[0]?.currentExchange.userMessage;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-secondary-900/30 dark:bg-black/50 backdrop-blur-sm p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="comparison-heading"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 10 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 10 }}
+        transition={{ duration: 0.25, ease: [0.16, 1, 0.3, 1] }}
+        className="w-full max-w-6xl max-h-[85vh] flex"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Card variant="elevated" padding="lg" className="w-full flex flex-col min-h-0">
+          <CardHeader className="flex-row items-start justify-between space-y-0">
+            <div className="min-w-0">
+              <CardTitle id="comparison-heading" className="flex items-center gap-2">
+                <Columns3 className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+                Model comparison
+              </CardTitle>
+              {prompt && (
+                <p className="mt-1 text-sm text-secondary-600 dark:text-secondary-400 line-clamp-2">{prompt}</p>
+              )}
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose} className="w-8 h-8 flex-shrink-0" title="Close comparison">
+              <X className="w-4 h-4" />
+            </Button>
+          </CardHeader>
+
+          <CardContent className="flex-1 min-h-0 overflow-x-auto">
+            <div
+              className="grid gap-3 h-full"
+              style={{ gridTemplateColumns: `repeat(${nodes.length}, minmax(240px, 1fr))` }}
+            >
+              {nodes.map(node => {
+                const stream = streamingState[node.id];
+                const usage = node.metadata?.usage;
+                const cost = getNodeCost(node, priceOverrides);
+                const error = node.currentExchange.error;
+                const text = stream ? stream.currentText : node.currentExchange.aiResponse;
+
+                return (
+                  <section
+                    key={node.id}
+                    className={cn(
+                      'flex flex-col min-h-0 rounded-xl border bg-white/60 dark:bg-secondary-900/60',
+                      node.variant?.isWinner
+                        ? 'border-accent-amber-500'
+                        : 'border-secondary-200 dark:border-secondary-700'
+                    )}
+                  >
+                    <header className="flex items-center gap-2 px-3 py-2 border-b border-secondary-200 dark:border-secondary-700">
+                      <span className="flex-1 truncate font-semibold text-sm text-secondary-900 dark:text-secondary-100">
+                        {getModelLabel(node)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onPickVariant(node.id)}
+                        className={cn('w-7 h-7', node.variant?.isWinner && 'text-accent-amber-600')}
+                        title={node.variant?.isWinner ? 'Clear the pick' : 'Pick this answer as the best'}
+                      >
+                        <Trophy className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          onFocusNode(node.id);
+                          onClose();
+                        }}
+                        className="w-7 h-7"
+                        title="Show on canvas"
+                      >
+                        <Crosshair className="w-3.5 h-3.5" />
+                      </Button>
+                    </header>
+
+                    <div className="flex flex-wrap gap-x-2 gap-y-0.5 px-3 py-1.5 text-xs text-secondary-500 dark:text-secondary-400 border-b border-secondary-200/50 dark:border-secondary-700/50">
+                      {stream ? (
+                        <span>{stream.status === 'queued' ? 'Queued' : 'Streaming…'}</span>
+                      ) : usage ? (
+                        <>
+                          <span>{formatDuration(usage.latencyMs)}</span>
+                          {usage.timeToFirstTokenMs !== undefined && <span>· first token {formatDuration(usage.timeToFirstTokenMs)}</span>}
+                          <span>· {usage.estimated && '~'}{formatTokens(usage.promptTokens)} in · {usage.estimated && '~'}{formatTokens(usage.outputTokens)} out</span>
+                          {cost !== undefined && <span>· {formatCost(cost)}</span>}
+                        </>
+                      ) : (
+                        <span>No usage recorded</span>
+                      )}
+                    </div>
+
+                    <div className="flex-1 min-h-0 overflow-y-auto px-3 py-2 text-sm leading-relaxed text-secondary-800 dark:text-secondary-200 whitespace-pre-wrap break-words select-text">
+                      {error && !stream ? (
+                        <div className="flex items-start gap-2 text-red-700 dark:text-red-300">
+                          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                          <span>{error.message}</span>
+                        </div>
+                      ) : text || (
+                        <span className="italic text-secondary-500 dark:text-secondary-400">Awaiting response...</span>
+                      )}
+                    </div>
+                  </section>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -24,17 +24,33 @@ import {
   ZoomOut, 
   Layers,
   Activity,
-  Compass
+  Compass,
+  Coins,
+  Undo2,
+  Redo2,
+  Trash2
 } from 'lucide-react';
 
 import { MessageNode } from './MessageNode';
 import { FloatingBranchInput } from './FloatingBranchInput';
+import { GenerationQueue } from './GenerationQueue';
+import { UsagePanel } from './UsagePanel';
+import { ComparisonPanel } from './ComparisonPanel';
+import { DeleteNodesDialog } from './DeleteNodesDialog';
+import { TrashPanel } from './TrashPanel';
 import { Button, Card, CardContent } from '../ui';
-import { useConversationStore } from '../../store';
+import { useConversationStore, useSettingsStore } from '../../store';
 import { useAIChat } from '../../hooks';
-import type { TextSelection } from '../../types';
+import type { BranchSubmitOptions, DeleteScope, PromptEditMode, TextSelection, TrashItem } from '../../types';
 import { cn } from '../../utils';
 import { UI_CONFIG } from '../../config/app';
+import { classifyAIError } from '../../services/aiErrors';
+import { resolveModelSelection } from '../../services/providerRegistry';
+import { mergeGenerationParams, spreadTemperatures } from '../../services/generationParams';
+import { resolvePersona } from '../../services/personas';
+import { formatCost, summarizeUsage } from '../../services/usage';
+import { getDescendants, selectNodeHistory } from '../../services/nodeHistory';
+import { isBuiltOnOtherRevision } from '../../services/nodeRevisions';
 
 import '@xyflow/react/dist/style.css';
 
@@ -42,6 +58,25 @@ const nodeTypes = {
   message: MessageNode,
 };
 
+// Horizontal distance between sibling variants; nodes are at most 600px wide
+const VARIANT_SPACING = 640;
+
+/**
+ * Resolves once none of the nodes is queued or streaming, e.g. after aborting them
+ */
+const waitForGenerationsToEnd = (nodeIds: string[]) => new Promise<void>(resolve => {
+  const isIdle = () => nodeIds.every(nodeId => !useConversationStore.getState().streamingState[nodeId]);
+  if (isIdle()) {
+    resolve();
+    return;
+  }
+  const unsubscribe = useConversationStore.subscribe(() => {
+    if (!isIdle()) return;
+    unsubscribe();
+    resolve();
+  });
+});
+
 interface ConversationCanvasProps {
   className?: string;
 }
@@ -55,19 +90,40 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [showMainInput, setShowMainInput] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [showUsage, setShowUsage] = useState(false);
+  const [comparisonGroupId, setComparisonGroupId] = useState<string | null>(null);
+  const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
 
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   
   const { 
+    sessions,
+    activeSessionId,
     getActiveSession, 
+    getSession,
     createSession,
     createContextualNode,
     getNode: getStoreNode,
     updateNode,
+    setActiveNode,
+    tagVariantGroup,
+    pickVariantWinner,
+    groupHistory,
+    deleteNodes,
+    restoreTrashItem,
+    reviseNode,
+    switchNodeRevision,
+    undo,
+    redo,
+    history,
     streamingState,
+    getQueuedNodeIds,
   } = useConversationStore();
 
-  const { streamMessage } = useAIChat();
+  const { streamMessage, abortStreaming } = useAIChat();
+  const priceOverrides = useSettingsStore(state => state.priceOverrides);
+  const sessionUsage = summarizeUsage(getActiveSession()?.canvas.nodes ?? [], priceOverrides);
 
   const { 
     fitView,
@@ -92,10 +148,18 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
   useEffect(() => {
     const session = getActiveSession();
     if (!session) {
-      createSession('New Conversation');
+      setNodes([]);
+      setEdges([]);
       return;
     }
 
+    const isNodeStreaming = (nodeId: string) => streamingState[nodeId]?.status === 'streaming';
+    const queuedNodeIds = getQueuedNodeIds();
+    const nodesById = new Map(session.canvas.nodes.map(node => [node.id, node]));
+    const decidedVariantGroups = new Set(
+      session.canvas.nodes.filter(node => node.variant?.isWinner).map(node => node.variant?.groupId)
+    );
+
     // Convert store nodes to React Flow nodes with enhanced styling
     const flowNodes = session.canvas.nodes.map(storeNode => ({
       id: storeNode.id,
@@ -103,13 +167,25 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
       position: storeNode.position,
       data: {
         node: storeNode,
-        isStreaming: streamingState.nodeId === storeNode.id ? streamingState.isStreaming : false,
-        streamingText: streamingState.nodeId === storeNode.id ? streamingState.currentText : undefined,
+        isStreaming: isNodeStreaming(storeNode.id),
+        streamingText: streamingState[storeNode.id]?.currentText,
+        queuePosition: queuedNodeIds.includes(storeNode.id) ? queuedNodeIds.indexOf(storeNode.id) + 1 : undefined,
         onTextSelection: handleTextSelection,
         onBranch: handleBranchRequest,
+        onStop: handleStopStreaming,
+        onRetry: handleRetry,
+        onPickVariant: handlePickVariant,
+        onOpenComparison: setComparisonGroupId,
+        onDelete: setDeleteTargetId,
+        onEditPrompt: handleEditPrompt,
+        onSwitchRevision: switchNodeRevision,
+        onRegenerate: handleRegenerate,
+        historyLength: selectNodeHistory(session.canvas.nodes, storeNode.id).length,
+        isVariantRunnerUp: !!storeNode.variant && !storeNode.variant.isWinner && decidedVariantGroups.has(storeNode.variant.groupId),
+        isOutdated: isBuiltOnOtherRevision(storeNode, storeNode.parentId ? nodesById.get(storeNode.parentId) : undefined),
       },
       style: {
-        opacity: streamingState.nodeId === storeNode.id && streamingState.isStreaming ? 0.95 : 1,
+        opacity: isNodeStreaming(storeNode.id) ? 0.95 : 1,
       },
     }));
 
@@ -119,12 +195,12 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
       source: storeEdge.source,
       target: storeEdge.target,
       type: 'smoothstep',
-      animated: streamingState.isStreaming && (storeEdge.target === streamingState.nodeId || storeEdge.source === streamingState.nodeId),
+      animated: isNodeStreaming(storeEdge.target) || isNodeStreaming(storeEdge.source),
       style: {
         stroke: '#3b82f6',
         strokeWidth: 3,
         strokeOpacity: 0.9,
-        strokeDasharray: streamingState.isStreaming && (storeEdge.target === streamingState.nodeId || storeEdge.source === streamingState.nodeId) ? '8,4' : 'none',
+        strokeDasharray: isNodeStreaming(storeEdge.target) || isNodeStreaming(storeEdge.source) ? '8,4' : 'none',
       },
       pathOptions: {
         borderRadius: 20,
@@ -134,7 +210,7 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
 
     setNodes(flowNodes);
     setEdges(flowEdges);
-  }, [getActiveSession, streamingState, createSession]);
+  }, [sessions, getActiveSession, getQueuedNodeIds, streamingState]);
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -151,6 +227,19 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
         event.preventDefault();
         handleFitView();
       }
+      // Undo and redo; text fields keep their own undo
+      const target = event.target as HTMLElement | null;
+      const isTyping = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+      if ((event.metaKey || event.ctrlKey) && !isTyping) {
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          useConversationStore.getState().undo();
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+          event.preventDefault();
+          useConversationStore.getState().redo();
+        }
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -163,6 +252,10 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
     setTextSelection(selection);
   }, []);
 
+  const handleStopStreaming = useCallback((nodeId: string) => {
+    abortStreaming(nodeId);
+  }, [abortStreaming]);
+
   const handleBranchRequest = useCallback((nodeId: string, selection?: TextSelection) => {
     const node = getFlowNode(nodeId);
     if (!node) return;
@@ -181,40 +274,201 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
     }
   }, [getFlowNode]);
 
-  const handleMainInputSubmit = useCallback(async (message: string) => {
-    // Create new contextual node (root node)
-    const nodeId = createContextualNode(message, undefined, undefined, undefined, { x: 0, y: 0 });
-    setShowMainInput(false);
-    
+  /**
+   * Stream the AI response for a node, recording a typed error on failure.
+   * Results reach the node's session even if the user switches away meanwhile.
+   */
+  const generateNodeResponse = useCallback(async (nodeId: string, message: string, sessionId = getActiveSession()?.id) => {
     try {
-      // Generate AI response
-      const response = await streamMessage(message, nodeId);
-      
-      // Update the node with the AI response
-      const storeNode = getStoreNode(nodeId);
-      if (storeNode) {
-        updateNode(nodeId, {
-          currentExchange: {
-            ...storeNode.currentExchange,
-            aiResponse: response,
-          },
-        });
-      }
+      await streamMessage(message, nodeId, sessionId);
     } catch (error) {
       console.error('Failed to generate AI response:', error);
-      const storeNode = getStoreNode(nodeId);
+      const aiError = classifyAIError(error);
+      const storeNode = getStoreNode(nodeId, sessionId);
       if (storeNode) {
         updateNode(nodeId, {
           currentExchange: {
             ...storeNode.currentExchange,
-            aiResponse: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}. Please check your API configuration and try again.`,
+            aiResponse: '',
+            status: undefined,
+            error: {
+              kind: aiError.kind,
+              message: aiError.message,
+              detail: aiError.detail,
+              retryable: aiError.retryable,
+            },
           },
-        });
+        }, { recordHistory: false, sessionId });
       }
     }
-  }, [createContextualNode, streamMessage, getStoreNode, updateNode]);
+  }, [getActiveSession, streamMessage, getStoreNode, updateNode]);
+
+  const handleRetry = useCallback(async (nodeId: string) => {
+    const storeNode = getStoreNode(nodeId);
+    if (!storeNode) return;
+
+    updateNode(nodeId, {
+      currentExchange: {
+        ...storeNode.currentExchange,
+        error: undefined,
+        toolSteps: undefined,
+      },
+    }, { recordHistory: false });
+
+    await generateNodeResponse(nodeId, storeNode.currentExchange.userMessage);
+  }, [getStoreNode, updateNode, generateNodeResponse]);
+
+  /**
+   * Create the node for a prompt, or a row of sibling variants when several
+   * answers were requested, and generate their responses
+   */
+  const submitPrompt = useCallback(async (
+    message: string,
+    options: BranchSubmitOptions,
+    position: { x: number; y: number },
+    parentNodeId?: string,
+    selection?: TextSelection | null
+  ) => {
+    // A comparison asks each model once; otherwise the branch model answers count times
+    const compareModels = options.compareModels && options.compareModels.length > 1 ? options.compareModels : undefined;
+    const count = compareModels?.length ?? options.variants?.count ?? 1;
+    const temperatures = !compareModels && options.variants?.varyTemperature ? spreadTemperatures(count) : undefined;
+
+    // All the nodes of one prompt undo as a single step
+    const label = count === 1 ? 'Send prompt' : compareModels ? 'Compare models' : 'Generate variants';
+    const nodeIds = groupHistory(label, () => {
+      const ids = Array.from({ length: count }, (_, index) => createContextualNode(
+        message,
+        parentNodeId,
+        selection?.selectedText,
+        selection?.nodeId,
+        { x: position.x + index * VARIANT_SPACING, y: position.y },
+        {
+          model: compareModels ? compareModels[index] : options.model,
+          generation: temperatures ? { ...options.generation, temperature: temperatures[index] } : options.generation,
+          personaId: options.personaId,
+          responseSchema: options.responseSchema,
+        },
+        options.attachments
+      ));
+      if (ids.length > 1) tagVariantGroup(ids, compareModels ? 'comparison' : 'variants');
+      return ids;
+    });
+    if (compareModels) setComparisonGroupId(getStoreNode(nodeIds[0])?.variant?.groupId ?? null);
+
+    // The stream scheduler caps how many of these run at once
+    await Promise.all(nodeIds.map(nodeId => generateNodeResponse(nodeId, message)));
+  }, [createContextualNode, tagVariantGroup, groupHistory, getStoreNode, generateNodeResponse]);
+
+  /**
+   * Answer a node's prompt again, keeping the current answer as a version.
+   * Descendants stay as they are and show that they came from another version.
+   */
+  const handleRegenerate = useCallback(async (nodeId: string) => {
+    const storeNode = getStoreNode(nodeId);
+    if (!storeNode) return;
+
+    reviseNode(nodeId, storeNode.currentExchange.userMessage);
+    await generateNodeResponse(nodeId, storeNode.currentExchange.userMessage);
+  }, [getStoreNode, reviseNode, generateNodeResponse]);
+
+  /**
+   * Regenerate a node, then each listed descendant once its parent has answered.
+   * Descendants keep their previous answer as a revision; a failed or stopped
+   * answer leaves the nodes below it as they were.
+   */
+  const rerunSubtree = useCallback(async (rootId: string, descendantIds: string[], sessionId: string) => {
+    const rerunIds = new Set(descendantIds);
+
+    const rerun = async (nodeId: string): Promise<void> => {
+      const storeNode = getStoreNode(nodeId, sessionId);
+      if (!storeNode) return;
+      await generateNodeResponse(nodeId, storeNode.currentExchange.userMessage, sessionId);
+
+      const answered = getStoreNode(nodeId, sessionId)?.currentExchange;
+      if (!answered || answered.error || answered.status === 'stopped') return;
+
+      const children = (getSession(sessionId)?.canvas.nodes ?? []).filter(node => node.parentId === nodeId && rerunIds.has(node.id));
+      await Promise.all(children.map(child => {
+        reviseNode(child.id, child.currentExchange.userMessage, { recordHistory: false, sessionId });
+        return rerun(child.id);
+      }));
+    };
+
+    await rerun(rootId);
+  }, [getStoreNode, getSession, generateNodeResponse, reviseNode]);
+
+  /**
+   * Send an edited prompt, either as a new branch beside the node or as a new
+   * revision of the node with everything below it re-run
+   */
+  const handleEditPrompt = useCallback(async (nodeId: string, message: string, mode: PromptEditMode) => {
+    const storeNode = getStoreNode(nodeId);
+    if (!storeNode) return;
+
+    if (mode === 'sibling') {
+      const { quotedText, sourceNodeId, attachments } = storeNode.currentExchange;
+      const height = getFlowNode(nodeId)?.measured?.height ?? 300;
+      const siblingId = groupHistory('Edit as new branch', () => {
+        const id = createContextualNode(
+          message,
+          storeNode.parentId ?? undefined,
+          quotedText,
+          sourceNodeId,
+          { x: storeNode.position.x, y: storeNode.position.y + height + 80 },
+          storeNode.config,
+          attachments
+        );
+        // A root node cut loose from deleted ancestors passes their context on
+        if (storeNode.detachedHistory) updateNode(id, { detachedHistory: storeNode.detachedHistory });
+        return id;
+      });
+      await generateNodeResponse(siblingId, message);
+      return;
+    }
+
+    const session = getActiveSession();
+    if (!session) return;
+
+    // Answers still arriving below would be written into the new revisions
+    const descendantIds = getDescendants(session.canvas.nodes, nodeId).map(node => node.id);
+    const generatingIds = [nodeId, ...descendantIds].filter(id => streamingState[id]);
+    generatingIds.forEach(id => abortStreaming(id));
+    await waitForGenerationsToEnd(generatingIds);
+
+    reviseNode(nodeId, message, { sessionId: session.id });
+    await rerunSubtree(nodeId, descendantIds, session.id);
+  }, [
+    getStoreNode,
+    getFlowNode,
+    getActiveSession,
+    groupHistory,
+    createContextualNode,
+    updateNode,
+    reviseNode,
+    streamingState,
+    abortStreaming,
+    generateNodeResponse,
+    rerunSubtree,
+  ]);
+
+  const handlePickVariant = useCallback((nodeId: string) => {
+    pickVariantWinner(nodeId);
+  }, [pickVariantWinner]);
+
+  const handleCloseComparison = useCallback(() => {
+    setComparisonGroupId(null);
+  }, []);
+
+  const handleMainInputSubmit = useCallback(async (message: string, options: BranchSubmitOptions) => {
+    setShowMainInput(false);
+    // With no conversations left, the first prompt starts one
+    if (!getActiveSession()) createSession();
+    // Create new contextual node (root node)
+    await submitPrompt(message, options, { x: 0, y: 0 });
+  }, [getActiveSession, createSession, submitPrompt]);
 
-  const handleBranchSubmit = useCallback(async (message: string) => {
+  const handleBranchSubmit = useCallback(async (message: string, options: BranchSubmitOptions) => {
     if (!selectedNodeId || !branchInputPosition) return;
 
     const parentFlowNode = getFlowNode(selectedNodeId);
@@ -225,44 +479,11 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
       y: parentFlowNode.position.y + Math.random() * 100 - 50, // Add slight randomness for visual appeal
     };
     
-    // Create new contextual node as branch
-    const nodeId = createContextualNode(
-      message,
-      selectedNodeId,
-      textSelection?.selectedText,
-      textSelection?.nodeId,
-      newNodePosition
-    );
-    
     resetBranchInput();
 
-    try {
-      // Generate AI response
-      const response = await streamMessage(message, nodeId);
-      
-      // Update the node with the AI response
-      const storeNode = getStoreNode(nodeId);
-      if (storeNode) {
-        updateNode(nodeId, {
-          currentExchange: {
-            ...storeNode.currentExchange,
-            aiResponse: response,
-          },
-        });
-      }
-    } catch (error) {
-      console.error('Failed to generate AI response:', error);
-      const storeNode = getStoreNode(nodeId);
-      if (storeNode) {
-        updateNode(nodeId, {
-          currentExchange: {
-            ...storeNode.currentExchange,
-            aiResponse: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}. Please check your API configuration and try again.`,
-          },
-        });
-      }
-    }
-  }, [selectedNodeId, branchInputPosition, textSelection, getFlowNode, createContextualNode, streamMessage, getStoreNode, updateNode]);
+    // Create new contextual node as branch
+    await submitPrompt(message, options, newNodePosition, selectedNodeId, textSelection);
+  }, [selectedNodeId, branchInputPosition, textSelection, getFlowNode, submitPrompt]);
 
   const resetBranchInput = () => {
     setShowBranchInput(false);
@@ -299,6 +520,28 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
     });
   }, [fitView]);
 
+  const sessionHistory = activeSessionId ? history[activeSessionId] : undefined;
+  const lastUndo = sessionHistory?.past[sessionHistory.past.length - 1];
+  const lastRedo = sessionHistory?.future[sessionHistory.future.length - 1];
+  const trashCount = getActiveSession()?.trash?.length ?? 0;
+
+  // Frame the canvas after switching sessions, and again once a lazily loaded session's nodes arrive
+  const hasActiveNodes = (getActiveSession()?.canvas.nodes.length ?? 0) > 0;
+  useEffect(() => {
+    const timer = setTimeout(handleFitView, 50);
+    return () => clearTimeout(timer);
+  }, [activeSessionId, hasActiveNodes, handleFitView]);
+
+  // Panels tied to nodes of the previous session
+  useEffect(() => {
+    setComparisonGroupId(null);
+    setDeleteTargetId(null);
+    setShowTrash(false);
+    setShowBranchInput(false);
+    setSelectedNodeId(null);
+    setTextSelection(null);
+  }, [activeSessionId]);
+
   const handleZoomIn = useCallback(() => {
     zoomIn({ duration: 300 });
   }, [zoomIn]);
@@ -314,6 +557,43 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
     }
   }, [nodes, setCenter]);
 
+  const handleFocusNode = useCallback((nodeId: string) => {
+    const node = getFlowNode(nodeId);
+    if (!node) return;
+
+    setActiveNode(nodeId);
+    setCenter(node.position.x + (node.width || 400) / 2, node.position.y + (node.height || 200) / 2, { duration: 400, zoom: 1 });
+  }, [getFlowNode, setActiveNode, setCenter]);
+
+  // The delete key opens the same confirmation as the node's button; React Flow never removes nodes itself
+  const handleBeforeDelete = useCallback(async ({ nodes: deleting }: { nodes: Node[] }) => {
+    if (deleting[0]) setDeleteTargetId(deleting[0].id);
+    return false;
+  }, []);
+
+  const handleCloseDelete = useCallback(() => {
+    setDeleteTargetId(null);
+  }, []);
+
+  const handleDeleteNodes = useCallback((nodeId: string, scope: DeleteScope) => {
+    const storeNodes = getActiveSession()?.canvas.nodes ?? [];
+    const descendantIds = scope === 'node' ? [] : getDescendants(storeNodes, nodeId).map(node => node.id);
+    const removedIds = scope === 'descendants' ? descendantIds : [nodeId, ...descendantIds];
+
+    // Nothing should keep generating into nodes that are gone
+    removedIds.forEach(id => {
+      if (streamingState[id]) abortStreaming(id);
+    });
+    deleteNodes(nodeId, scope);
+  }, [getActiveSession, streamingState, abortStreaming, deleteNodes]);
+
+  const handleRestoreTrash = useCallback((item: TrashItem) => {
+    restoreTrashItem(item.id);
+    setShowTrash(false);
+    // Wait for the restored nodes to reach React Flow
+    setTimeout(() => handleFocusNode(item.nodes[0].id), 50);
+  }, [restoreTrashItem, handleFocusNode]);
+
   return (
     <div 
       ref={reactFlowWrapper} 
@@ -326,6 +606,10 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        onNodeClick={(_, node) => setActiveNode(node.id)}
+        onNodeDragStop={(_, node) => updateNode(node.id, { position: node.position })}
+        onBeforeDelete={handleBeforeDelete}
+        onPaneClick={() => setActiveNode(null)}
         nodeTypes={nodeTypes}
         connectionMode={ConnectionMode.Loose}
         fitView
@@ -337,7 +621,7 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
         maxZoom={UI_CONFIG.canvas.maxZoom}
         snapToGrid={false}
         snapGrid={[20, 20]}
-        deleteKeyCode={null} // Disable delete key
+        deleteKeyCode={['Delete', 'Backspace']}
         multiSelectionKeyCode={null} // Disable multi-selection
       >
         {/* Professional Background */}
@@ -405,13 +689,46 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
                         </div>
                       </div>
                     </div>
+
+                    <div className="w-px h-8 bg-secondary-200 dark:bg-secondary-700" />
+
+                    <button
+                      type="button"
+                      onClick={() => setShowUsage(value => !value)}
+                      className="flex items-center gap-2 text-xs text-left rounded-lg hover:opacity-80 transition-opacity"
+                      title="Show usage and cost"
+                    >
+                      <div className="w-6 h-6 bg-gradient-to-br from-accent-purple-500 to-accent-purple-600 rounded-lg flex items-center justify-center">
+                        <Coins className="w-3 h-3 text-white" />
+                      </div>
+                      <div>
+                        <div className="font-semibold text-secondary-900 dark:text-secondary-100">
+                          {formatCost(sessionUsage.cost)}
+                        </div>
+                        <div className="text-secondary-500 dark:text-secondary-400 -mt-0.5">
+                          Spend
+                        </div>
+                      </div>
+                    </button>
                   </div>
                 </CardContent>
               </Card>
             </motion.div>
+            {showUsage && (
+              <UsagePanel
+                onClose={() => setShowUsage(false)}
+                onFocusNode={handleFocusNode}
+                className="mt-2"
+              />
+            )}
           </Panel>
         )}
         
+        {/* Running and queued generations */}
+        <Panel position="top-right" className="z-40">
+          <GenerationQueue onFocusNode={handleFocusNode} onCancel={handleStopStreaming} />
+        </Panel>
+
         {/* Professional Canvas Controls */}
         {nodes.length > 0 && (
           <Panel position="bottom-right" className="z-40">
@@ -442,6 +759,41 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
                     <ZoomOut className="w-4 h-4" />
                   </Button>
                   <div className="w-full h-px bg-secondary-200 dark:bg-secondary-700 my-1" />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={undo}
+                    disabled={!lastUndo}
+                    className="w-9 h-9 hover:bg-secondary-100 dark:hover:bg-secondary-800"
+                    title={lastUndo ? `Undo ${lastUndo.label.toLowerCase()} (⌘Z)` : 'Nothing to undo'}
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={redo}
+                    disabled={!lastRedo}
+                    className="w-9 h-9 hover:bg-secondary-100 dark:hover:bg-secondary-800"
+                    title={lastRedo ? `Redo ${lastRedo.label.toLowerCase()} (⇧⌘Z)` : 'Nothing to redo'}
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setShowTrash(true)}
+                    className="relative w-9 h-9 hover:bg-secondary-100 dark:hover:bg-secondary-800"
+                    title="Trash"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    {trashCount > 0 && (
+                      <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-secondary-500 text-[10px] leading-4 text-white">
+                        {trashCount}
+                      </span>
+                    )}
+                  </Button>
+                  <div className="w-full h-px bg-secondary-200 dark:bg-secondary-700 my-1" />
                   <Button
                     variant="ghost"
                     size="icon"
@@ -472,7 +824,10 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
             position="bottom-left"
             className="border border-blue-200 rounded-lg shadow-lg bg-slate-50"
             nodeColor={(node) => {
-              const nodeData = node.data as { node?: { currentExchange?: { aiResponse?: string } }; isStreaming?: boolean };
+              const nodeData = node.data as { node?: { currentExchange?: { aiResponse?: string; error?: unknown } }; isStreaming?: boolean };
+              if (nodeData?.node?.currentExchange?.error) {
+                return '#ef4444'; // Red for failed generations
+              }
               if (nodeData?.node?.currentExchange?.aiResponse) {
                 return '#10b981'; // Green for completed conversations
               }
@@ -550,12 +905,44 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
             position={branchInputPosition}
             onSubmit={handleBranchSubmit}
             onCancel={handleBranchCancel}
+            inheritedModel={resolveModelSelection(selectedNodeId ? getStoreNode(selectedNodeId)?.config : undefined, getActiveSession())}
+            inheritedGeneration={mergeGenerationParams(
+              getActiveSession()?.settings?.generation,
+              selectedNodeId ? getStoreNode(selectedNodeId)?.config?.generation : undefined
+            )}
+            personas={getActiveSession()?.settings?.personas}
+            inheritedPersona={resolvePersona(selectedNodeId ? getStoreNode(selectedNodeId)?.config : undefined, getActiveSession())}
+            inheritedSchema={selectedNodeId ? getStoreNode(selectedNodeId)?.config?.responseSchema ?? undefined : undefined}
             selectedText={textSelection?.selectedText}
             quotedText={textSelection?.selectedText}
           />
         )}
       </AnimatePresence>
 
+      {/* Model comparison */}
+      <AnimatePresence>
+        {comparisonGroupId && (
+          <ComparisonPanel
+            groupId={comparisonGroupId}
+            onClose={handleCloseComparison}
+            onFocusNode={handleFocusNode}
+            onPickVariant={handlePickVariant}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Delete confirmation */}
+      <AnimatePresence>
+        {deleteTargetId && (
+          <DeleteNodesDialog nodeId={deleteTargetId} onClose={handleCloseDelete} onDelete={handleDeleteNodes} />
+        )}
+      </AnimatePresence>
+
+      {/* Trash */}
+      <AnimatePresence>
+        {showTrash && <TrashPanel onClose={() => setShowTrash(false)} onRestore={handleRestoreTrash} />}
+      </AnimatePresence>
+
       {/* Main Input */}
       <AnimatePresence>
         {showMainInput && (
@@ -571,6 +958,9 @@ const ConversationCanvasInner: React.FC<ConversationCanvasProps> = ({ className
                 position={{ x: 0, y: 0 }}
                 onSubmit={handleMainInputSubmit}
                 onCancel={handleMainInputCancel}
+                inheritedModel={resolveModelSelection(undefined, getActiveSession())}
+                inheritedGeneration={getActiveSession()?.settings?.generation}
+                personas={getActiveSession()?.settings?.personas}
                 placeholder="Start your conversation..."
                 className="!relative !left-0 !top-0 !transform-none w-full mx-auto"
               />
@@ -0,0 +1,121 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Trash2, X } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+import { useConversationStore } from '../../store';
+import { getDescendants } from '../../services/nodeHistory';
+import type { ConversationNode, DeleteScope } from '../../types';
+
+const NO_NODES: ConversationNode[] = [];
+
+interface DeleteNodesDialogProps {
+  nodeId: string;
+  onClose: () => void;
+  onDelete: (nodeId: string, scope: DeleteScope) => void;
+}
+
+const countLabel = (count: number) => `${count} ${count === 1 ? 'node' : 'nodes'}`;
+
+/**
+ * Asks what to delete from a node, with how many nodes each choice removes
+ */
+export const DeleteNodesDialog: React.FC<DeleteNodesDialogProps> = ({ nodeId, onClose, onDelete }) => {
+  const nodes = useConversationStore(state => state.getActiveSession()?.canvas.nodes ?? NO_NODES);
+  const node = nodes.find(candidate => candidate.id === nodeId);
+  const descendantCount = node ? getDescendants(nodes, nodeId).length : 0;
+  const childCount = nodes.filter(candidate => candidate.parentId === nodeId).length;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // The node is gone, e.g. undone or deleted elsewhere
+  useEffect(() => {
+    if (!node) onClose();
+  }, [node, onClose]);
+
+  if (!node) return null;
+
+  const choices: Array<{ scope: DeleteScope; title: string; detail: string }> = [
+    {
+      scope: 'node',
+      title: 'Delete this node',
+      detail: childCount > 0
+        ? `${countLabel(1)}. Its ${childCount === 1 ? 'reply stays' : `${childCount} replies stay`} on the canvas with the context they had.`
+        : countLabel(1),
+    },
+  ];
+  if (descendantCount > 0) {
+    choices.push(
+      { scope: 'subtree', title: 'Delete this node and everything below', detail: countLabel(descendantCount + 1) },
+      { scope: 'descendants', title: 'Delete everything below, keep this node', detail: countLabel(descendantCount) }
+    );
+  }
+
+  const handleChoice = (scope: DeleteScope) => {
+    onDelete(nodeId, scope);
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-secondary-900/30 dark:bg-black/50 backdrop-blur-sm p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="delete-nodes-heading"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 10 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 10 }}
+        transition={{ duration: 0.25, ease: [0.16, 1, 0.3, 1] }}
+        className="w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Card variant="elevated" padding="lg">
+          <CardHeader className="flex-row items-start justify-between space-y-0">
+            <div className="min-w-0">
+              <CardTitle id="delete-nodes-heading" className="flex items-center gap-2">
+                <Trash2 className="w-5 h-5 text-red-600 dark:text-red-400" />
+                Delete
+              </CardTitle>
+              <p className="mt-1 text-sm text-secondary-600 dark:text-secondary-400 line-clamp-2">
+                {node.currentExchange.userMessage}
+              </p>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose} className="w-8 h-8 flex-shrink-0" title="Cancel">
+              <X className="w-4 h-4" />
+            </Button>
+          </CardHeader>
+
+          <CardContent className="flex flex-col gap-2">
+            {choices.map(choice => (
+              <button
+                key={choice.scope}
+                type="button"
+                onClick={() => handleChoice(choice.scope)}
+                autoFocus={choice.scope === 'node'}
+                className="flex flex-col items-start gap-0.5 px-3 py-2.5 rounded-lg text-left border border-secondary-200 dark:border-secondary-700 hover:border-red-300 hover:bg-red-50 dark:hover:border-red-800 dark:hover:bg-red-950/30 transition-colors"
+              >
+                <span className="text-sm font-medium text-secondary-900 dark:text-secondary-100">{choice.title}</span>
+                <span className="text-xs text-secondary-500 dark:text-secondary-400">{choice.detail}</span>
+              </button>
+            ))}
+            <p className="pt-1 text-xs text-secondary-500 dark:text-secondary-400">
+              Deleted nodes go to this conversation's trash, where they can be restored.
+            </p>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+};
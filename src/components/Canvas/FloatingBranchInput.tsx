@@ -1,17 +1,33 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { X, Quote, ArrowUpRight } from 'lucide-react';
+import { X, Quote, ArrowUpRight, SlidersHorizontal, Paperclip, Braces, Copy, Columns3 } from 'lucide-react';
 import { Button } from '../ui';
+import { ModelPicker } from './ModelPicker';
+import { PersonaPicker } from './PersonaPicker';
+import { CompareModelsPicker } from './CompareModelsPicker';
+import { AttachmentList } from './AttachmentList';
+import { ResponseSchemaForm, type ResponseSchemaMode } from './ResponseSchemaForm';
+import { GenerationParamsForm } from '../Settings/GenerationParamsForm';
 import { cn } from '../../utils';
+import { AI_CONFIG } from '../../config/app';
+import { hasGenerationParams, spreadTemperatures } from '../../services/generationParams';
+import { ATTACHMENT_ACCEPT, readAttachments } from '../../services/attachments';
+import { EXAMPLE_RESPONSE_SCHEMA, parseResponseSchema } from '../../services/structuredOutput';
+import type { Attachment, BranchSubmitOptions, GenerationParams, JsonSchema, ModelSelection, Persona } from '../../types';
 
 interface FloatingBranchInputProps {
   position: { x: number; y: number };
-  onSubmit: (message: string) => void;
+  onSubmit: (message: string, options: BranchSubmitOptions) => void;
   onCancel: () => void;
   selectedText?: string;
   quotedText?: string;
   placeholder?: string;
   className?: string;
+  inheritedModel?: ModelSelection; // Model the branch runs on unless overridden
+  inheritedGeneration?: GenerationParams; // Sampling parameters the branch inherits
+  personas?: Persona[]; // Personas saved on the session
+  inheritedPersona?: Persona; // Persona the branch runs as unless switched
+  inheritedSchema?: JsonSchema; // Structured output schema the branch inherits
 }
 
 export const FloatingBranchInput: React.FC<FloatingBranchInputProps> = ({
@@ -22,10 +38,31 @@ export const FloatingBranchInput: React.FC<FloatingBranchInputProps> = ({
   quotedText,
   placeholder,
   className,
+  inheritedModel,
+  inheritedGeneration,
+  personas = [],
+  inheritedPersona,
+  inheritedSchema,
 }) => {
   const [message, setMessage] = useState('');
+  const [model, setModel] = useState<ModelSelection | undefined>(undefined);
+  const [generation, setGeneration] = useState<GenerationParams>({});
+  const [personaId, setPersonaId] = useState<string | null | undefined>(undefined);
+  const [showParams, setShowParams] = useState(false);
+  const [showSchema, setShowSchema] = useState(false);
+  const [schemaMode, setSchemaMode] = useState<ResponseSchemaMode>('inherit');
+  const [schemaText, setSchemaText] = useState(() => JSON.stringify(inheritedSchema ?? EXAMPLE_RESPONSE_SCHEMA, null, 2));
+  const [showVariants, setShowVariants] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [varyTemperature, setVaryTemperature] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareModels, setCompareModels] = useState<ModelSelection[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     // Auto-focus the input when it appears
@@ -53,13 +90,62 @@ export const FloatingBranchInput: React.FC<FloatingBranchInputProps> = ({
     }
   }, [message]);
 
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const result = await readAttachments(files, attachments.length);
+    setAttachments(current => [...current, ...result.attachments]);
+    setAttachmentErrors(result.errors);
+  };
+
+  const removeAttachment = (attachmentId: string) => {
+    setAttachments(current => current.filter(attachment => attachment.id !== attachmentId));
+    setAttachmentErrors([]);
+  };
+
+  // Pasted images and files become attachments; pasted text is left to the textarea
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const parsedSchema = schemaMode === 'json' ? parseResponseSchema(schemaText) : {};
+  const usesJson = schemaMode === 'json' || (schemaMode === 'inherit' && !!inheritedSchema);
+  const canSend = message.trim().length > 0 && !parsedSchema.error;
+  const isComparing = compareModels.length > 1;
+
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
     
-    if (!message.trim()) return;
+    if (!canSend) return;
     
-    onSubmit(message.trim());
+    onSubmit(message.trim(), {
+      model,
+      generation: hasGenerationParams(generation) ? generation : undefined,
+      personaId,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      responseSchema: schemaMode === 'json' ? parsedSchema.schema : schemaMode === 'prose' ? null : undefined,
+      variants: variantCount > 1 ? { count: variantCount, varyTemperature } : undefined,
+      compareModels: isComparing ? compareModels : undefined,
+    });
     setMessage('');
+    setAttachments([]);
+    setAttachmentErrors([]);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -71,7 +157,6 @@ export const FloatingBranchInput: React.FC<FloatingBranchInputProps> = ({
     }
   };
 
-  const canSend = message.trim().length > 0;
 
   return (
     <motion.div
@@ -108,11 +193,15 @@ export const FloatingBranchInput: React.FC<FloatingBranchInputProps> = ({
       <form onSubmit={handleSubmit} className="relative">
         <motion.div
           layout
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
           className={cn(
             'bg-white/95 dark:bg-secondary-900/95 backdrop-blur-xl rounded-2xl overflow-hidden',
             'border border-secondary-200/50 dark:border-secondary-700/50 shadow-xl',
             className?.includes('!relative') ? 'w-full max-w-2xl mx-auto' : 'min-w-[380px] max-w-[500px]',
-            isFocused ? 'shadow-glow-lg border-primary-300/50 dark:border-primary-600/50' : ''
+            isFocused ? 'shadow-glow-lg border-primary-300/50 dark:border-primary-600/50' : '',
+            isDragging ? 'border-dashed border-primary-400 dark:border-primary-500' : ''
           )}
         >
           {/* Reference Header */}
@@ -166,6 +255,7 @@ export const FloatingBranchInput: React.FC<FloatingBranchInputProps> = ({
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
                   onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
                   onFocus={() => setIsFocused(true)}
                   onBlur={() => setIsFocused(false)}
                   placeholder={placeholder || (selectedText 
@@ -203,6 +293,210 @@ export const FloatingBranchInput: React.FC<FloatingBranchInputProps> = ({
               </div>
             </div>
 
+            {/* Attachments */}
+            <AttachmentList attachments={attachments} onRemove={removeAttachment} className="mt-3" />
+            {attachmentErrors.map(error => (
+              <p key={error} className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+            ))}
+
+            {/* Branch Options */}
+            <div className="mt-3 flex items-center gap-2 flex-wrap">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className={cn(
+                  'flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-colors',
+                  attachments.length > 0
+                    ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+                    : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300'
+                )}
+                title="Attach images, PDFs or text files (or drop / paste them here)"
+              >
+                <Paperclip className="w-3 h-3" />
+                {attachments.length > 0 ? attachments.length : 'Attach'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                onChange={(e) => {
+                  addFiles(Array.from(e.target.files ?? []));
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              <ModelPicker
+                value={model}
+                inheritedModel={inheritedModel}
+                onChange={setModel}
+              />
+              <PersonaPicker
+                value={personaId}
+                personas={personas}
+                inheritedPersona={inheritedPersona}
+                onChange={setPersonaId}
+              />
+              <button
+                type="button"
+                onClick={() => setShowParams(value => !value)}
+                className={cn(
+                  'flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-colors',
+                  showParams || hasGenerationParams(generation)
+                    ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+                    : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300'
+                )}
+                title="Sampling parameters for this branch"
+              >
+                <SlidersHorizontal className="w-3 h-3" />
+                Parameters
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowSchema(value => !value)}
+                className={cn(
+                  'flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-colors',
+                  showSchema || usesJson
+                    ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+                    : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300'
+                )}
+                title="Structured JSON output for this branch"
+              >
+                <Braces className="w-3 h-3" />
+                JSON
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowVariants(value => !value)}
+                className={cn(
+                  'flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-colors',
+                  showVariants || variantCount > 1
+                    ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+                    : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300'
+                )}
+                title="Generate several alternative answers side by side"
+              >
+                <Copy className="w-3 h-3" />
+                {variantCount > 1 ? `${variantCount} variants` : 'Variants'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowCompare(value => !value)}
+                className={cn(
+                  'flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-colors',
+                  showCompare || isComparing
+                    ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+                    : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300'
+                )}
+                title="Ask several models the same prompt and compare their answers"
+              >
+                <Columns3 className="w-3 h-3" />
+                {isComparing ? `Compare ${compareModels.length}` : 'Compare'}
+              </button>
+            </div>
+
+            {showCompare && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                transition={{ duration: 0.2, ease: 'easeOut' }}
+                className="mt-3 overflow-hidden"
+              >
+                <CompareModelsPicker
+                  value={compareModels}
+                  onChange={(models) => {
+                    setCompareModels(models);
+                    if (models.length > 1) setVariantCount(1);
+                  }}
+                />
+              </motion.div>
+            )}
+
+            {showVariants && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                transition={{ duration: 0.2, ease: 'easeOut' }}
+                className="mt-3 overflow-hidden"
+              >
+                <div className="flex items-center gap-3 flex-wrap text-xs text-secondary-700 dark:text-secondary-300">
+                  <span className="font-medium">Answers</span>
+                  <div className="flex items-center gap-1">
+                    {Array.from({ length: AI_CONFIG.variants.maxCount }, (_, index) => index + 1).map(count => (
+                      <button
+                        key={count}
+                        type="button"
+                        onClick={() => {
+                          setVariantCount(count);
+                          if (count > 1) setCompareModels([]);
+                        }}
+                        className={cn(
+                          'w-6 h-6 rounded-md transition-colors',
+                          variantCount === count
+                            ? 'bg-primary-600 text-white'
+                            : 'bg-secondary-100 dark:bg-secondary-800 hover:bg-secondary-200 dark:hover:bg-secondary-700'
+                        )}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                  <label className={cn('flex items-center gap-1.5', variantCount < 2 && 'opacity-50')}>
+                    <input
+                      type="checkbox"
+                      checked={varyTemperature}
+                      disabled={variantCount < 2}
+                      onChange={(e) => setVaryTemperature(e.target.checked)}
+                      className="rounded border-secondary-300 dark:border-secondary-600"
+                    />
+                    Vary temperature
+                  </label>
+                </div>
+                {variantCount > 1 && (
+                  <p className="mt-2 text-xs text-secondary-500 dark:text-secondary-400">
+                    {varyTemperature
+                      ? `Temperatures ${spreadTemperatures(variantCount).join(', ')}`
+                      : `The same prompt runs ${variantCount} times with the branch's settings`}
+                  </p>
+                )}
+              </motion.div>
+            )}
+
+            {showSchema && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                transition={{ duration: 0.2, ease: 'easeOut' }}
+                className="mt-3 overflow-hidden"
+              >
+                <ResponseSchemaForm
+                  mode={schemaMode}
+                  text={schemaText}
+                  inheritedSchema={inheritedSchema}
+                  onModeChange={setSchemaMode}
+                  onTextChange={(text) => {
+                    setSchemaText(text);
+                    setSchemaMode('json');
+                  }}
+                />
+              </motion.div>
+            )}
+
+            {showParams && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                transition={{ duration: 0.2, ease: 'easeOut' }}
+                className="mt-3 overflow-hidden"
+              >
+                <GenerationParamsForm
+                  value={generation}
+                  onChange={setGeneration}
+                  inherited={inheritedGeneration}
+                />
+              </motion.div>
+            )}
+
             {/* Enhanced Keyboard Shortcuts */}
             <motion.div
               initial={{ opacity: 0, y: 10 }}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Clock, X } from 'lucide-react';
+import { Card, CardContent } from '../ui';
+import { useConversationStore } from '../../store';
+import { AI_CONFIG } from '../../config/app';
+import { cn } from '../../utils';
+
+interface GenerationQueueProps {
+  onFocusNode: (nodeId: string) => void;
+  onCancel: (nodeId: string) => void;
+  className?: string;
+}
+
+/**
+ * Live list of generations: the ones streaming now and the ones waiting for a slot
+ */
+export const GenerationQueue: React.FC<GenerationQueueProps> = ({ onFocusNode, onCancel, className }) => {
+  const { streamingState, getQueuedNodeIds, getNode } = useConversationStore();
+
+  const streamingNodeIds = Object.keys(streamingState).filter(nodeId => streamingState[nodeId].status === 'streaming');
+  const queuedNodeIds = getQueuedNodeIds();
+  const entries = [...streamingNodeIds, ...queuedNodeIds];
+
+  if (entries.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ duration: 0.3 }}
+      className={cn('w-72', className)}
+    >
+      <Card variant="glass" padding="sm" className="backdrop-blur-xl">
+        <CardContent className="flex flex-col gap-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-semibold text-secondary-900 dark:text-secondary-100">Generations</span>
+            <span className="text-secondary-500 dark:text-secondary-400">
+              {streamingNodeIds.length}/{AI_CONFIG.streaming.maxConcurrent} running
+              {queuedNodeIds.length > 0 && ` · ${queuedNodeIds.length} queued`}
+            </span>
+          </div>
+
+          <ul className="flex flex-col gap-1">
+            {entries.map(nodeId => {
+              const isQueued = streamingState[nodeId].status === 'queued';
+              const prompt = getNode(nodeId, streamingState[nodeId].sessionId)?.currentExchange.userMessage ?? '';
+
+              return (
+                <li
+                  key={nodeId}
+                  className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 transition-colors"
+                >
+                  {isQueued ? (
+                    <Clock className="w-3.5 h-3.5 flex-shrink-0 text-secondary-500 dark:text-secondary-400" />
+                  ) : (
+                    <div className="w-3.5 h-3.5 flex-shrink-0 border-2 border-accent-emerald-500 border-t-transparent rounded-full animate-spin" />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onFocusNode(nodeId)}
+                    className="flex-1 min-w-0 text-left text-xs text-secondary-700 dark:text-secondary-300 truncate"
+                    title="Show on canvas"
+                  >
+                    {isQueued && (
+                      <span className="font-medium text-secondary-500 dark:text-secondary-400">
+                        #{queuedNodeIds.indexOf(nodeId) + 1}{' '}
+                      </span>
+                    )}
+                    {prompt}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onCancel(nodeId)}
+                    className="p-0.5 rounded text-secondary-400 hover:text-secondary-700 dark:hover:text-secondary-200"
+                    title={isQueued ? 'Remove from queue' : 'Stop generating'}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
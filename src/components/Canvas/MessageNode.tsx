@@ -1,34 +1,117 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useMemo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
-import { User, Bot, GitBranch, Quote, Clock, Zap } from 'lucide-react';
-import type { ConversationNode, TextSelection } from '../../types';
+import { User, Bot, GitBranch, Quote, Clock, Zap, Square, CircleSlash, AlertTriangle, RotateCcw, Scissors, SlidersHorizontal, VenetianMask, X, Braces, Copy, Trophy, Columns3, Trash2, Pencil, ChevronLeft, ChevronRight, GitFork, RefreshCw } from 'lucide-react';
+import type { AIErrorKind, ConversationNode, PromptEditMode, TextSelection } from '../../types';
 import { Button } from '../ui';
+import { AttachmentList } from './AttachmentList';
+import { ToolSteps } from './ToolSteps';
+import { StructuredResponse } from './StructuredResponse';
 import { cn, formatTimestamp } from '../../utils';
-import { AI_CONFIG } from '../../config/app';
+import { getModelDisplayName } from '../../services/providerRegistry';
+import { describeGenerationParams } from '../../services/generationParams';
+import { formatCost, formatDuration, formatTokens, getNodeCost } from '../../services/usage';
+import { parseJsonResponse } from '../../services/structuredOutput';
+import { getRevisionCount, getRevisionIndex } from '../../services/nodeRevisions';
+import { useSettingsStore } from '../../store';
 
 export interface MessageNodeData {
   node: ConversationNode;
   isStreaming?: boolean;
   streamingText?: string;
+  queuePosition?: number; // Set while the node waits for a generation slot
   onTextSelection?: (selection: TextSelection) => void;
   onBranch?: (nodeId: string, selection?: TextSelection) => void;
+  onStop?: (nodeId: string) => void;
+  onRetry?: (nodeId: string) => void;
+  onPickVariant?: (nodeId: string) => void;
+  onOpenComparison?: (groupId: string) => void;
+  onDelete?: (nodeId: string) => void;
+  onEditPrompt?: (nodeId: string, message: string, mode: PromptEditMode) => void;
+  onSwitchRevision?: (nodeId: string, index: number) => void;
+  onRegenerate?: (nodeId: string) => void;
+  isVariantRunnerUp?: boolean; // Another variant of this node's group was picked
+  isOutdated?: boolean; // The answer was generated from a version of the parent's answer that is no longer current
+  historyLength?: number; // Messages inherited from ancestors
 }
 
+const ERROR_KIND_LABELS: Record<AIErrorKind, string> = {
+  auth: 'Authentication error',
+  rate_limit: 'Rate limited',
+  safety: 'Blocked by safety filters',
+  network: 'Connection problem',
+  invalid_request: 'Invalid request',
+  invalid_output: 'Invalid structured output',
+  unknown: 'Generation failed',
+};
+
 export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
   id,
   data,
   selected,
 }) => {
   const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
+  const [showCompaction, setShowCompaction] = useState(false);
+  const [draftPrompt, setDraftPrompt] = useState<string | null>(null); // Set while the prompt is being edited
   const aiContentRef = useRef<HTMLDivElement>(null);
 
-  const { node, isStreaming, streamingText, onTextSelection, onBranch } = data;
+  const { node, isStreaming, streamingText, queuePosition, onTextSelection, onBranch, onStop, onRetry, onPickVariant, onOpenComparison, onDelete, onEditPrompt, onSwitchRevision, onRegenerate, isVariantRunnerUp, isOutdated, historyLength } = data;
   const { currentExchange } = node;
   
   // Get conversation context indicators
-  const messageCount = node.messages?.length || 0;
+  const messageCount = historyLength || 0;
   const hasQuotedText = currentExchange?.quotedText;
+  const wasStopped = currentExchange?.status === 'stopped';
+  const hasFinished = !!currentExchange?.status;
+  const nodeError = currentExchange?.error;
+  const compaction = node.metadata?.compaction;
+  const variant = node.variant;
+  const revisionCount = getRevisionCount(node);
+  const revisionIndex = getRevisionIndex(node);
+  const isGenerating = isStreaming || !!queuePosition;
+
+  // Prefer the model that actually answered; fall back to the one the branch will use
+  const modelSource = node.metadata?.providerId && node.metadata.model
+    ? { providerId: node.metadata.providerId, model: node.metadata.model }
+    : node.config?.model;
+  const modelLabel = modelSource ? getModelDisplayName(modelSource.providerId, modelSource.model) : 'Default model';
+  const generationLabels = describeGenerationParams(node.metadata?.generation ?? node.config?.generation);
+  const persona = node.metadata?.persona;
+  const usage = node.metadata?.usage;
+  const priceOverrides = useSettingsStore(state => state.priceOverrides);
+  const cost = getNodeCost(node, priceOverrides);
+
+  // Structured answers render as tables or cards; partial ones (e.g. stopped) stay as text
+  const aiResponse = currentExchange?.aiResponse;
+  const expectsJson = !!node.config?.responseSchema;
+  const structured = useMemo(() => {
+    if (!expectsJson || !aiResponse) return undefined;
+    try {
+      return { value: parseJsonResponse(aiResponse) };
+    } catch {
+      return undefined;
+    }
+  }, [expectsJson, aiResponse]);
+
+  const submitDraft = (mode: PromptEditMode) => {
+    const message = draftPrompt?.trim();
+    if (!message) return;
+
+    onEditPrompt?.(id, message, mode);
+    setDraftPrompt(null);
+  };
+
+  // Enter with Ctrl/⌘ replaces and re-runs; Escape leaves the prompt as it was
+  const handleDraftKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      submitDraft('replace');
+    }
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      setDraftPrompt(null);
+    }
+  };
 
   const handleTextSelection = useCallback(() => {
     setTimeout(() => {
@@ -104,7 +187,9 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
             : 'shadow-large hover:shadow-xl hover:scale-[1.01]',
           'cursor-default bg-canvas-node-bg-light dark:bg-canvas-node-bg-dark',
           'border border-canvas-node-border-light dark:border-canvas-node-border-dark',
-          selected && 'border-primary-300 dark:border-primary-600'
+          selected && 'border-primary-300 dark:border-primary-600',
+          variant?.isWinner && 'ring-2 ring-accent-amber-500',
+          isVariantRunnerUp && !selected && 'opacity-60 hover:opacity-100'
         )}
         style={{ pointerEvents: 'auto' }}
       >
@@ -133,7 +218,7 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
         />
 
         {/* Context Header */}
-        {(messageCount > 0 || hasQuotedText) && (
+        {(messageCount > 0 || hasQuotedText || compaction || variant) && (
           <motion.div 
             initial={{ opacity: 0, height: 0 }}
             animate={{ opacity: 1, height: 'auto' }}
@@ -148,6 +233,19 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
                   </span>
                 </div>
               )}
+              {compaction && (
+                <button
+                  type="button"
+                  onClick={() => setShowCompaction(value => !value)}
+                  className="nodrag flex items-center gap-1.5 px-2 py-1 bg-accent-amber-100 dark:bg-accent-amber-900/30 rounded-lg"
+                  title={`The model saw about ${compaction.estimatedTokens.toLocaleString()} of ${compaction.budgetTokens.toLocaleString()} budgeted tokens`}
+                >
+                  <Scissors className="w-3 h-3 text-accent-amber-600 dark:text-accent-amber-400" />
+                  <span className="text-accent-amber-700 dark:text-accent-amber-300 font-medium">
+                    {compaction.omittedMessages} {compaction.strategy}
+                  </span>
+                </button>
+              )}
               {hasQuotedText && (
                 <div className="flex items-center gap-1.5 px-2 py-1 bg-primary-100 dark:bg-primary-900/30 rounded-lg">
                   <Quote className="w-3 h-3 text-primary-600 dark:text-primary-400" />
@@ -156,7 +254,63 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
                   </span>
                 </div>
               )}
+              {variant && (
+                <div className="ml-auto flex items-center gap-1.5">
+                  {variant.kind === 'comparison' ? (
+                    <button
+                      type="button"
+                      onClick={() => onOpenComparison?.(variant.groupId)}
+                      className="nodrag flex items-center gap-1.5 px-2 py-1 bg-secondary-200/70 dark:bg-secondary-700/70 rounded-lg hover:bg-secondary-300/70 dark:hover:bg-secondary-600/70"
+                      title="Compare the answers of every model side by side"
+                    >
+                      <Columns3 className="w-3 h-3 text-secondary-500 dark:text-secondary-400" />
+                      <span className="text-secondary-700 dark:text-secondary-300 font-medium">
+                        Compare {variant.size} models
+                      </span>
+                    </button>
+                  ) : (
+                    <div
+                      className="flex items-center gap-1.5 px-2 py-1 bg-secondary-200/70 dark:bg-secondary-700/70 rounded-lg"
+                      title="One of several answers generated from the same prompt"
+                    >
+                      <Copy className="w-3 h-3 text-secondary-500 dark:text-secondary-400" />
+                      <span className="text-secondary-700 dark:text-secondary-300 font-medium">
+                        Variant {variant.index + 1} of {variant.size}
+                      </span>
+                    </div>
+                  )}
+                  {onPickVariant && (
+                    <button
+                      type="button"
+                      onClick={() => onPickVariant(id)}
+                      className={cn(
+                        'nodrag flex items-center gap-1.5 px-2 py-1 rounded-lg font-medium transition-colors',
+                        variant.isWinner
+                          ? 'bg-accent-amber-100 dark:bg-accent-amber-900/30 text-accent-amber-700 dark:text-accent-amber-300'
+                          : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-600 dark:text-secondary-400 hover:text-accent-amber-700 dark:hover:text-accent-amber-300'
+                      )}
+                      title={variant.isWinner ? 'Clear the pick' : 'Pick this answer as the best of the group'}
+                    >
+                      <Trophy className="w-3 h-3" />
+                      {variant.isWinner ? 'Winner' : 'Pick'}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
+            {compaction && showCompaction && (
+              <div className="nodrag mt-2 text-xs leading-relaxed text-secondary-600 dark:text-secondary-400 select-text cursor-text">
+                <p>
+                  {compaction.omittedMessages} earlier {compaction.omittedMessages === 1 ? 'message' : 'messages'} (~{compaction.omittedTokens.toLocaleString()} tokens)
+                  {compaction.strategy === 'summarized' ? ' were replaced by this summary:' : ' were left out to fit the context window.'}
+                </p>
+                {compaction.summary && (
+                  <p className="mt-1.5 pl-3 border-l-2 border-accent-amber-300 dark:border-accent-amber-700 whitespace-pre-wrap">
+                    {compaction.summary}
+                  </p>
+                )}
+              </div>
+            )}
           </motion.div>
         )}
 
@@ -174,16 +328,81 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
                   </span>
                   <div className="w-1.5 h-1.5 bg-primary-400 rounded-full" />
                   <span className="text-xs text-secondary-500 dark:text-secondary-400">
-                    {formatTimestamp(node.createdAt)}
+                    {formatTimestamp(node.revisedAt ?? node.createdAt)}
                   </span>
                 </div>
               </div>
+              {onEditPrompt && draftPrompt === null && !isGenerating && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraftPrompt(currentExchange.userMessage)}
+                  className="nodrag w-7 h-7 text-secondary-400 hover:text-primary-600 dark:hover:text-primary-400"
+                  title="Edit prompt"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+              )}
+              {onDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDelete(id)}
+                  className="nodrag w-7 h-7 text-secondary-400 hover:text-red-600 dark:hover:text-red-400"
+                  title="Delete…"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
             </div>
           </div>
           <div className="nodrag px-5 py-4" style={{ userSelect: 'text' }}>
-            <div className="nodrag text-sm leading-relaxed text-secondary-900 dark:text-secondary-100 whitespace-pre-wrap break-words select-text cursor-text font-medium">
-              {currentExchange?.userMessage}
-            </div>
+            {draftPrompt !== null ? (
+              <div className="flex flex-col gap-2">
+                <textarea
+                  value={draftPrompt}
+                  onChange={(e) => setDraftPrompt(e.target.value)}
+                  onKeyDown={handleDraftKeyDown}
+                  autoFocus
+                  rows={3}
+                  className="nowheel w-full px-3 py-2 rounded-lg text-sm font-medium resize-y bg-white dark:bg-secondary-900 border border-primary-300 dark:border-primary-700 outline-none focus:ring-2 focus:ring-primary-500/30 text-secondary-900 dark:text-secondary-100"
+                  aria-label="Edited prompt"
+                />
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => submitDraft('sibling')}
+                    disabled={!draftPrompt.trim()}
+                    className="h-7 gap-1.5 px-2.5 text-xs"
+                    title="Send the edited prompt as a new branch next to this one"
+                  >
+                    <GitFork className="w-3 h-3" />
+                    New branch
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => submitDraft('replace')}
+                    disabled={!draftPrompt.trim()}
+                    className="h-7 gap-1.5 px-2.5 text-xs"
+                    title="Keep the current prompt and answer as a revision, answer the edited prompt here and re-run everything below"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    Replace and re-run
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setDraftPrompt(null)} className="ml-auto h-7 px-2.5 text-xs">
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="nodrag text-sm leading-relaxed text-secondary-900 dark:text-secondary-100 whitespace-pre-wrap break-words select-text cursor-text font-medium">
+                {currentExchange?.userMessage}
+              </div>
+            )}
+            {currentExchange?.attachments && (
+              <AttachmentList attachments={currentExchange.attachments} className="mt-3" />
+            )}
           </div>
         </div>
 
@@ -202,18 +421,97 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
                   <div className="flex items-center gap-1.5 px-2 py-0.5 bg-accent-amber-100 dark:bg-accent-amber-900/30 rounded-md">
                     <Zap className="w-2.5 h-2.5 text-accent-amber-600 dark:text-accent-amber-400" />
                     <span className="text-xs font-medium text-accent-amber-700 dark:text-accent-amber-300">
-                      {AI_CONFIG.modelDisplayName}
+                      {modelLabel}
                     </span>
                   </div>
+                  {persona && (
+                    <div
+                      className="flex items-center gap-1.5 px-2 py-0.5 bg-violet-100 dark:bg-violet-900/30 rounded-md"
+                      title="Persona whose system prompt was in effect"
+                    >
+                      <VenetianMask className="w-2.5 h-2.5 text-violet-600 dark:text-violet-400" />
+                      <span className="text-xs font-medium text-violet-700 dark:text-violet-300">
+                        {persona.name}
+                      </span>
+                    </div>
+                  )}
+                  {expectsJson && (
+                    <div
+                      className="flex items-center gap-1.5 px-2 py-0.5 bg-secondary-100 dark:bg-secondary-800 rounded-md"
+                      title="Answers in this branch must match a JSON schema"
+                    >
+                      <Braces className="w-2.5 h-2.5 text-secondary-500 dark:text-secondary-400" />
+                      <span className="text-xs font-medium text-secondary-600 dark:text-secondary-300">JSON</span>
+                    </div>
+                  )}
+                  {isOutdated && (
+                    <div
+                      className="flex items-center gap-1.5 px-2 py-0.5 bg-accent-amber-100 dark:bg-accent-amber-900/30 rounded-md"
+                      title="Generated from a version of the parent's answer that is no longer selected. Switch the parent back, or regenerate to answer from the current one."
+                    >
+                      <AlertTriangle className="w-2.5 h-2.5 text-accent-amber-600 dark:text-accent-amber-400" />
+                      <span className="text-xs font-medium text-accent-amber-700 dark:text-accent-amber-300">Parent answer changed</span>
+                    </div>
+                  )}
+                  {generationLabels.length > 0 && (
+                    <div
+                      className="flex items-center gap-1.5 px-2 py-0.5 bg-secondary-100 dark:bg-secondary-800 rounded-md"
+                      title="Sampling parameters used for this response"
+                    >
+                      <SlidersHorizontal className="w-2.5 h-2.5 text-secondary-500 dark:text-secondary-400" />
+                      <span className="text-xs font-medium text-secondary-600 dark:text-secondary-300">
+                        {generationLabels.join(' · ')}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
+              {revisionCount > 1 && (
+                <div className="nodrag flex items-center text-xs text-secondary-500 dark:text-secondary-400">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onSwitchRevision?.(id, revisionIndex - 1)}
+                    disabled={isGenerating || revisionIndex === 0}
+                    className="w-6 h-6"
+                    title="Previous version"
+                  >
+                    <ChevronLeft className="w-3.5 h-3.5" />
+                  </Button>
+                  <span className="tabular-nums">{revisionIndex + 1} of {revisionCount}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onSwitchRevision?.(id, revisionIndex + 1)}
+                    disabled={isGenerating || revisionIndex === revisionCount - 1}
+                    className="w-6 h-6"
+                    title="Next version"
+                  >
+                    <ChevronRight className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              )}
+              {onRegenerate && !isGenerating && (currentExchange.aiResponse || hasFinished) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onRegenerate(id)}
+                  className="nodrag w-7 h-7 text-secondary-400 hover:text-accent-emerald-600 dark:hover:text-accent-emerald-400"
+                  title="Regenerate this answer, keeping the current one as a version"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </Button>
+              )}
               <span className="text-xs text-secondary-500 dark:text-secondary-400">
-                {formatTimestamp(node.createdAt)}
+                {formatTimestamp(node.revisedAt ?? node.createdAt)}
               </span>
             </div>
           </div>
           
           <div className="nodrag px-5 py-4 relative" style={{ userSelect: 'text' }}>
+            {currentExchange?.toolSteps && (
+              <ToolSteps steps={currentExchange.toolSteps} className="mb-3" />
+            )}
             {isStreaming ? (
               <div className="flex flex-col gap-3">
                 <div className="flex items-center gap-2">
@@ -221,6 +519,18 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
                   <span className="text-sm text-accent-emerald-600 dark:text-accent-emerald-400 font-medium animate-glow-pulse">
                     Thinking...
                   </span>
+                  {onStop && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onStop(id)}
+                      className="nodrag ml-auto h-7 gap-1.5 px-2.5 text-xs"
+                      title="Stop generating"
+                    >
+                      <Square className="w-3 h-3 fill-current" />
+                      Stop
+                    </Button>
+                  )}
                 </div>
                 {streamingText && (
                   <motion.div
@@ -240,14 +550,88 @@ export const MessageNode: React.FC<NodeProps & { data: MessageNodeData }> = ({
                   </motion.div>
                 )}
               </div>
-            ) : currentExchange?.aiResponse ? (
-              <div
-                ref={aiContentRef}
-                className="nodrag text-sm leading-relaxed text-secondary-800 dark:text-secondary-200 whitespace-pre-wrap break-words select-text cursor-text"
-                onMouseUp={handleTextSelection}
-                style={{ userSelect: 'text', WebkitUserSelect: 'text', MozUserSelect: 'text' }}
-              >
-                {currentExchange.aiResponse}
+            ) : queuePosition ? (
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-secondary-500 dark:text-secondary-400" />
+                <span className="text-sm text-secondary-600 dark:text-secondary-400 font-medium">
+                  Queued · #{queuePosition} in line
+                </span>
+                {onStop && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onStop(id)}
+                    className="nodrag ml-auto h-7 gap-1.5 px-2.5 text-xs"
+                    title="Remove from queue"
+                  >
+                    <X className="w-3 h-3" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ) : nodeError ? (
+              <div className="flex flex-col gap-3 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900/50 rounded-xl">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-red-600 dark:text-red-400" />
+                  <span className="text-sm font-semibold text-red-700 dark:text-red-300">
+                    {ERROR_KIND_LABELS[nodeError.kind]}
+                  </span>
+                </div>
+                <p className="text-sm text-red-700/90 dark:text-red-300/90 leading-relaxed">
+                  {nodeError.message}
+                </p>
+                {nodeError.detail && nodeError.detail !== nodeError.message && (
+                  <p className="text-xs font-mono text-red-600/70 dark:text-red-400/70 break-words line-clamp-3" title={nodeError.detail}>
+                    {nodeError.detail}
+                  </p>
+                )}
+                {onRetry && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRetry(id)}
+                    className="nodrag self-start h-7 gap-1.5 px-2.5 text-xs"
+                    title="Retry this request"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            ) : currentExchange?.aiResponse || hasFinished ? (
+              <div className="flex flex-col gap-3">
+                {currentExchange.aiResponse && (
+                  <div
+                    ref={aiContentRef}
+                    className="nodrag text-sm leading-relaxed text-secondary-800 dark:text-secondary-200 whitespace-pre-wrap break-words select-text cursor-text"
+                    onMouseUp={handleTextSelection}
+                    style={{ userSelect: 'text', WebkitUserSelect: 'text', MozUserSelect: 'text' }}
+                  >
+                    {structured ? <StructuredResponse value={structured.value} /> : currentExchange.aiResponse}
+                  </div>
+                )}
+                {wasStopped && (
+                  <div className="flex items-center gap-1.5 self-start px-2 py-1 bg-secondary-100 dark:bg-secondary-800 rounded-lg text-xs text-secondary-600 dark:text-secondary-400">
+                    <CircleSlash className="w-3 h-3" />
+                    <span className="font-medium">
+                      {currentExchange.aiResponse ? 'Stopped — partial response' : 'Stopped before answering'}
+                    </span>
+                  </div>
+                )}
+                {!wasStopped && !currentExchange.aiResponse && (
+                  <p className="text-xs italic text-secondary-500 dark:text-secondary-400">The model returned no text.</p>
+                )}
+                {usage && (
+                  <div
+                    className="flex items-center gap-2 flex-wrap text-xs text-secondary-500 dark:text-secondary-400"
+                    title={usage.estimated ? 'Token counts estimated locally; the provider reported no usage' : 'Token usage reported by the provider'}
+                  >
+                    <span>{usage.estimated && '~'}{formatTokens(usage.promptTokens)} in · {usage.estimated && '~'}{formatTokens(usage.outputTokens)} out</span>
+                    {usage.timeToFirstTokenMs !== undefined && <span>· first token {formatDuration(usage.timeToFirstTokenMs)}</span>}
+                    <span>· {formatDuration(usage.latencyMs)}</span>
+                    {cost !== undefined && <span>· {formatCost(cost)}</span>}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="flex items-center gap-2 text-sm text-secondary-500 dark:text-secondary-400">
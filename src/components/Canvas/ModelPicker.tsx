@@ -0,0 +1,79 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { useAvailableModels } from '../../hooks';
+import { getAvailableProviders, getModelDisplayName } from '../../services/providerRegistry';
+import type { AIProviderId, ModelSelection } from '../../types';
+import { cn } from '../../utils';
+
+interface ModelPickerProps {
+  value?: ModelSelection; // Undefined means "inherit"
+  inheritedModel?: ModelSelection;
+  onChange: (value: ModelSelection | undefined) => void;
+  className?: string;
+}
+
+const INHERIT_VALUE = '';
+
+// Provider ids never contain ':', model ids (e.g. "llama3.1:8b") might
+const encodeSelection = (selection: ModelSelection) => `${selection.providerId}:${selection.model}`;
+
+const decodeSelection = (value: string): ModelSelection => {
+  const separator = value.indexOf(':');
+  return {
+    providerId: value.slice(0, separator) as AIProviderId,
+    model: value.slice(separator + 1),
+  };
+};
+
+export const ModelPicker: React.FC<ModelPickerProps> = ({
+  value,
+  inheritedModel,
+  onChange,
+  className,
+}) => {
+  const models = useAvailableModels();
+  const providers = getAvailableProviders();
+
+  // Keep a custom selection visible even if the provider no longer lists it
+  const selectedValue = value ? encodeSelection(value) : INHERIT_VALUE;
+  const isListed = !value || models.some(model => model.providerId === value.providerId && model.id === value.model);
+
+  return (
+    <label
+      className={cn(
+        'flex items-center gap-1.5 px-2 py-1 bg-secondary-100 dark:bg-secondary-800 rounded-lg text-xs text-secondary-700 dark:text-secondary-300',
+        className
+      )}
+      title="Model for this branch and its descendants"
+    >
+      <Cpu className="w-3 h-3 text-secondary-500 dark:text-secondary-400" />
+      <select
+        value={selectedValue}
+        onChange={(e) => onChange(e.target.value === INHERIT_VALUE ? undefined : decodeSelection(e.target.value))}
+        className="bg-transparent border-none outline-none cursor-pointer max-w-[200px]"
+      >
+        <option value={INHERIT_VALUE}>
+          {inheritedModel
+            ? `Inherit (${getModelDisplayName(inheritedModel.providerId, inheritedModel.model)})`
+            : 'Inherit'}
+        </option>
+        {!isListed && value && (
+          <option value={selectedValue}>
+            {getModelDisplayName(value.providerId, value.model)}
+          </option>
+        )}
+        {providers.map(provider => (
+          <optgroup key={provider.id} label={provider.displayName}>
+            {models
+              .filter(model => model.providerId === provider.id)
+              .map(model => (
+                <option key={`${model.providerId}:${model.id}`} value={encodeSelection({ providerId: model.providerId, model: model.id })}>
+                  {model.displayName}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+};
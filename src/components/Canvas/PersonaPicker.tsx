@@ -0,0 +1,58 @@
+import React from 'react';
+import { VenetianMask } from 'lucide-react';
+import type { Persona } from '../../types';
+import { cn } from '../../utils';
+
+interface PersonaPickerProps {
+  value?: string | null; // Undefined means "inherit", null means the session prompt
+  personas: Persona[];
+  inheritedPersona?: Persona;
+  onChange: (value: string | null | undefined) => void;
+  className?: string;
+}
+
+const INHERIT_VALUE = '';
+const SESSION_PROMPT_VALUE = '__session__';
+
+export const PersonaPicker: React.FC<PersonaPickerProps> = ({
+  value,
+  personas,
+  inheritedPersona,
+  onChange,
+  className,
+}) => {
+  const selectedValue = value === undefined ? INHERIT_VALUE : value ?? SESSION_PROMPT_VALUE;
+
+  const handleChange = (raw: string) => {
+    if (raw === INHERIT_VALUE) onChange(undefined);
+    else if (raw === SESSION_PROMPT_VALUE) onChange(null);
+    else onChange(raw);
+  };
+
+  return (
+    <label
+      className={cn(
+        'flex items-center gap-1.5 px-2 py-1 bg-secondary-100 dark:bg-secondary-800 rounded-lg text-xs text-secondary-700 dark:text-secondary-300',
+        className
+      )}
+      title="Persona for this branch and its descendants"
+    >
+      <VenetianMask className="w-3 h-3 text-secondary-500 dark:text-secondary-400" />
+      <select
+        value={selectedValue}
+        onChange={(e) => handleChange(e.target.value)}
+        className="bg-transparent border-none outline-none cursor-pointer max-w-[160px]"
+      >
+        <option value={INHERIT_VALUE}>
+          Inherit ({inheritedPersona ? inheritedPersona.name : 'Session prompt'})
+        </option>
+        <option value={SESSION_PROMPT_VALUE}>Session prompt</option>
+        {personas.map(persona => (
+          <option key={persona.id} value={persona.id}>
+            {persona.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
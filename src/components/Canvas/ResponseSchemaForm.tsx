@@ -0,0 +1,77 @@
+import React from 'react';
+import { parseResponseSchema } from '../../services/structuredOutput';
+import type { JsonSchema } from '../../types';
+import { cn } from '../../utils';
+
+export type ResponseSchemaMode = 'inherit' | 'json' | 'prose';
+
+interface ResponseSchemaFormProps {
+  mode: ResponseSchemaMode;
+  text: string; // Schema being edited, as JSON text
+  inheritedSchema?: JsonSchema; // Schema the branch uses when inheriting
+  onModeChange: (mode: ResponseSchemaMode) => void;
+  onTextChange: (text: string) => void;
+  className?: string;
+}
+
+/**
+ * Choose between prose and JSON output for a branch, with an editor for the schema
+ */
+export const ResponseSchemaForm: React.FC<ResponseSchemaFormProps> = ({
+  mode,
+  text,
+  inheritedSchema,
+  onModeChange,
+  onTextChange,
+  className,
+}) => {
+  const { error } = mode === 'json' ? parseResponseSchema(text) : {};
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      <div className="flex items-center gap-1 text-xs">
+        {([
+          ['inherit', `Inherit (${inheritedSchema ? 'JSON' : 'prose'})`],
+          ['json', 'JSON schema'],
+          ['prose', 'Prose'],
+        ] as const).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onModeChange(value)}
+            className={cn(
+              'px-2 py-1 rounded-lg transition-colors',
+              mode === value
+                ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+                : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'json' && (
+        <>
+          <textarea
+            value={text}
+            onChange={(e) => onTextChange(e.target.value)}
+            rows={8}
+            spellCheck={false}
+            className={cn(
+              'w-full px-3 py-2 rounded-lg text-xs font-mono bg-white dark:bg-secondary-900 resize-y',
+              'border outline-none text-secondary-900 dark:text-secondary-100',
+              error
+                ? 'border-red-300 dark:border-red-700'
+                : 'border-secondary-200 dark:border-secondary-700 focus:border-primary-400 dark:focus:border-primary-500'
+            )}
+            aria-label="JSON schema for the answer"
+          />
+          <p className={cn('text-xs', error ? 'text-red-600 dark:text-red-400' : 'text-secondary-500 dark:text-secondary-400')}>
+            {error ?? 'Answers in this branch and its descendants must be JSON matching this schema.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
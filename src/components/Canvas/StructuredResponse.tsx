@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Braces, Table2 } from 'lucide-react';
+import { cn } from '../../utils';
+
+interface StructuredResponseProps {
+  value: unknown;
+  className?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Render a JSON value: arrays of objects as tables, objects as key-value
+ * cards, nesting as needed
+ */
+const StructuredValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(isRecord)) {
+      const columns = [...new Set(value.flatMap(row => Object.keys(row)))];
+      return (
+        <div className="overflow-x-auto rounded-lg border border-secondary-200 dark:border-secondary-700">
+          <table className="w-full text-xs">
+            <thead className="bg-secondary-50 dark:bg-secondary-800/60">
+              <tr>
+                {columns.map(column => (
+                  <th key={column} className="px-2.5 py-1.5 text-left font-semibold text-secondary-700 dark:text-secondary-300">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {value.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-secondary-200 dark:border-secondary-700 align-top">
+                  {columns.map(column => (
+                    <td key={column} className="px-2.5 py-1.5 text-secondary-800 dark:text-secondary-200">
+                      <StructuredValue value={row[column]} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    return (
+      <ul className="flex flex-col gap-1 list-disc pl-4">
+        {value.map((item, index) => (
+          <li key={index}><StructuredValue value={item} /></li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (isRecord(value)) {
+    return (
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 p-2.5 rounded-lg bg-secondary-50 dark:bg-secondary-800/50 text-xs">
+        {Object.entries(value).map(([key, entry]) => (
+          <React.Fragment key={key}>
+            <dt className="font-semibold text-secondary-600 dark:text-secondary-400">{key}</dt>
+            <dd className="min-w-0 break-words text-secondary-800 dark:text-secondary-200">
+              <StructuredValue value={entry} />
+            </dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    );
+  }
+
+  return <span className="whitespace-pre-wrap">{formatScalar(value)}</span>;
+};
+
+/**
+ * Structured answer with a toggle between the rendered view and raw JSON
+ */
+export const StructuredResponse: React.FC<StructuredResponseProps> = ({ value, className }) => {
+  const [showRaw, setShowRaw] = useState(false);
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      <button
+        type="button"
+        onClick={() => setShowRaw(raw => !raw)}
+        className="nodrag self-end flex items-center gap-1 px-2 py-0.5 rounded-md text-xs bg-secondary-100 dark:bg-secondary-800 text-secondary-600 dark:text-secondary-400 hover:text-secondary-900 dark:hover:text-secondary-100"
+        title={showRaw ? 'Show as table' : 'Show raw JSON'}
+      >
+        {showRaw ? <Table2 className="w-3 h-3" /> : <Braces className="w-3 h-3" />}
+        {showRaw ? 'Formatted' : 'Raw JSON'}
+      </button>
+      {showRaw ? (
+        <pre className="p-2.5 rounded-lg bg-secondary-50 dark:bg-secondary-800/50 text-xs font-mono whitespace-pre-wrap break-words">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      ) : (
+        <StructuredValue value={value} />
+      )}
+    </div>
+  );
+};
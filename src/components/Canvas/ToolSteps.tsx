@@ -0,0 +1,75 @@
+import React from 'react';
+import { Wrench, CheckCircle2, XCircle } from 'lucide-react';
+import { getToolLabel } from '../../services/toolRegistry';
+import type { ToolCall, ToolStep } from '../../types';
+import { cn } from '../../utils';
+
+interface ToolStepsProps {
+  steps: ToolStep[];
+  className?: string;
+}
+
+/**
+ * Show a call's arguments compactly: a lone string argument as-is, otherwise as JSON
+ */
+const describeArguments = (call: ToolCall): string => {
+  const values = Object.values(call.arguments);
+  if (values.length === 1 && typeof values[0] === 'string') return values[0];
+  return values.length === 0 ? '' : JSON.stringify(call.arguments);
+};
+
+/**
+ * Tool rounds of an answer: what the model said, the calls it made and their results
+ */
+export const ToolSteps: React.FC<ToolStepsProps> = ({ steps, className }) => {
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      {steps.map((step, stepIndex) => (
+        <div key={stepIndex} className="flex flex-col gap-2">
+          {step.text && (
+            <p className="text-sm leading-relaxed text-secondary-700 dark:text-secondary-300 whitespace-pre-wrap break-words">
+              {step.text}
+            </p>
+          )}
+          {step.calls.map(call => {
+            const result = step.results.find(candidate => candidate.callId === call.id);
+            const args = describeArguments(call);
+
+            return (
+              <details
+                key={call.id}
+                className="nodrag group rounded-lg border border-secondary-200 dark:border-secondary-700 bg-secondary-50 dark:bg-secondary-800/50 text-xs"
+              >
+                <summary className="flex items-center gap-1.5 px-2.5 py-1.5 cursor-pointer list-none">
+                  <Wrench className="w-3 h-3 flex-shrink-0 text-secondary-500 dark:text-secondary-400" />
+                  <span className="font-medium text-secondary-800 dark:text-secondary-200">{getToolLabel(call.name)}</span>
+                  {args && (
+                    <span className="truncate font-mono text-secondary-500 dark:text-secondary-400">{args}</span>
+                  )}
+                  {result && (result.isError
+                    ? <XCircle className="w-3 h-3 ml-auto flex-shrink-0 text-red-500" />
+                    : <CheckCircle2 className="w-3 h-3 ml-auto flex-shrink-0 text-accent-emerald-500" />)}
+                </summary>
+                <div className="flex flex-col gap-1.5 px-2.5 pb-2">
+                  {args.includes('\n') && (
+                    <pre className="max-h-40 overflow-auto p-2 rounded bg-white dark:bg-secondary-900 font-mono whitespace-pre-wrap break-words text-secondary-700 dark:text-secondary-300">
+                      {args}
+                    </pre>
+                  )}
+                  <pre
+                    className={cn(
+                      'max-h-40 overflow-auto p-2 rounded bg-white dark:bg-secondary-900 font-mono whitespace-pre-wrap break-words select-text',
+                      result?.isError ? 'text-red-600 dark:text-red-400' : 'text-secondary-700 dark:text-secondary-300'
+                    )}
+                  >
+                    {result ? result.content : 'Running…'}
+                  </pre>
+                </div>
+              </details>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, Trash2, ArchiveRestore } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+import { useConversationStore } from '../../store';
+import type { DeleteScope, TrashItem } from '../../types';
+import { formatTimestamp } from '../../utils';
+
+interface TrashPanelProps {
+  onClose: () => void;
+  onRestore: (item: TrashItem) => void;
+}
+
+const EMPTY_TRASH: TrashItem[] = [];
+
+const SCOPE_LABELS: Record<DeleteScope, string> = {
+  node: 'Node',
+  subtree: 'Subtree',
+  descendants: 'Branch below',
+};
+
+/**
+ * Nodes deleted from the active conversation, newest first
+ */
+export const TrashPanel: React.FC<TrashPanelProps> = ({ onClose, onRestore }) => {
+  const trash = useConversationStore(state => state.getActiveSession()?.trash ?? EMPTY_TRASH);
+  const { removeTrashItem, emptyTrash } = useConversationStore();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleEmpty = () => {
+    if (window.confirm(`Permanently delete ${trash.length} ${trash.length === 1 ? 'item' : 'items'} from the trash?`)) {
+      emptyTrash();
+    }
+  };
+
+  const getTitle = (item: TrashItem) => {
+    const root = item.nodes.find(node => node.id === item.rootId) ?? item.nodes[0];
+    return root?.currentExchange.userMessage || 'Untitled node';
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-secondary-900/30 dark:bg-black/50 backdrop-blur-sm p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="trash-heading"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 10 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 10 }}
+        transition={{ duration: 0.25, ease: [0.16, 1, 0.3, 1] }}
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Card variant="elevated" padding="lg">
+          <CardHeader className="flex-row items-center justify-between space-y-0">
+            <CardTitle id="trash-heading" className="flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+              Trash
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              {trash.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={handleEmpty}>
+                  Empty trash
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" onClick={onClose} title="Close trash">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent className="flex flex-col gap-1">
+            {trash.length === 0 ? (
+              <p className="text-sm text-secondary-500 dark:text-secondary-400">Nothing has been deleted from this conversation.</p>
+            ) : (
+              trash.map(item => (
+                <div
+                  key={item.id}
+                  className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-sm text-secondary-900 dark:text-secondary-100">{getTitle(item)}</p>
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      {SCOPE_LABELS[item.scope]} · {item.nodes.length} {item.nodes.length === 1 ? 'node' : 'nodes'} · deleted {formatTimestamp(item.deletedAt).toLowerCase()}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => onRestore(item)} className="h-7 gap-1.5 px-2.5 text-xs">
+                    <ArchiveRestore className="w-3 h-3" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeTrashItem(item.id)}
+                    className="w-7 h-7 hover:text-red-600 dark:hover:text-red-400"
+                    title="Delete permanently"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { X, Coins, Cpu, GitBranch } from 'lucide-react';
+import { Button, Card, CardContent } from '../ui';
+import { useConversationStore, useSettingsStore } from '../../store';
+import { getModelDisplayName } from '../../services/providerRegistry';
+import { formatCost, formatDuration, formatTokens, listAnswers, summarizeAnswers, summarizeUsage, type UsageTotals } from '../../services/usage';
+import type { ConversationNode, NodeMetadata } from '../../types';
+import { cn } from '../../utils';
+
+interface UsagePanelProps {
+  onClose: () => void;
+  onFocusNode: (nodeId: string) => void;
+  className?: string;
+}
+
+const MAX_BRANCHES = 8;
+
+/**
+ * Nodes from the root down to the given node
+ */
+const getBranchPath = (nodesById: Map<string, ConversationNode>, nodeId: string): ConversationNode[] => {
+  const path: ConversationNode[] = [];
+  let current = nodesById.get(nodeId);
+
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? nodesById.get(current.parentId) : undefined;
+  }
+
+  return path;
+};
+
+const describeTotals = (totals: UsageTotals) =>
+  `${formatTokens(totals.promptTokens)} in · ${formatTokens(totals.outputTokens)} out`;
+
+/**
+ * Breakdown of the active session's token usage and cost by model and by branch
+ */
+export const UsagePanel: React.FC<UsagePanelProps> = ({ onClose, onFocusNode, className }) => {
+  const { getActiveSession } = useConversationStore();
+  const priceOverrides = useSettingsStore(state => state.priceOverrides);
+  const nodes = getActiveSession()?.canvas.nodes;
+
+  const { session, byModel, branches } = useMemo(() => {
+    const sessionNodes = nodes ?? [];
+    const nodesById = new Map(sessionNodes.map(node => [node.id, node]));
+
+    // Group answers by the model that produced them; a regenerated node may have used several
+    const modelGroups = new Map<string, { label: string; answers: NodeMetadata[] }>();
+    sessionNodes.flatMap(listAnswers).forEach(answer => {
+      const { providerId, model, usage } = answer;
+      if (!usage || !providerId || !model) return;
+
+      const key = `${providerId}:${model}`;
+      const group = modelGroups.get(key) ?? { label: getModelDisplayName(providerId, model), answers: [] };
+      group.answers.push(answer);
+      modelGroups.set(key, group);
+    });
+
+    // A branch is the path from the root to a node without children
+    const parentIds = new Set(sessionNodes.map(node => node.parentId));
+    const leaves = sessionNodes.filter(node => !parentIds.has(node.id));
+
+    return {
+      session: summarizeUsage(sessionNodes, priceOverrides),
+      byModel: [...modelGroups.entries()]
+        .map(([key, group]) => ({ key, label: group.label, totals: summarizeAnswers(group.answers, priceOverrides) }))
+        .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.outputTokens - a.totals.outputTokens),
+      branches: leaves
+        .map(leaf => {
+          const path = getBranchPath(nodesById, leaf.id);
+          return { leaf, depth: path.length, totals: summarizeUsage(path, priceOverrides) };
+        })
+        .filter(branch => branch.totals.answerCount > 0)
+        .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.promptTokens - a.totals.promptTokens)
+        .slice(0, MAX_BRANCHES),
+    };
+  }, [nodes, priceOverrides]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.25 }}
+      className={cn('w-80', className)}
+    >
+      <Card variant="glass" padding="sm" className="backdrop-blur-xl">
+        <CardContent className="flex flex-col gap-4 text-xs">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Coins className="w-4 h-4 text-accent-amber-600 dark:text-accent-amber-400" />
+              <span className="font-semibold text-sm text-secondary-900 dark:text-secondary-100">Usage</span>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose} className="w-7 h-7" title="Close usage">
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+
+          {session.answerCount === 0 ? (
+            <p className="text-secondary-500 dark:text-secondary-400">No answers with recorded usage in this session yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <div className="text-lg font-semibold text-secondary-900 dark:text-secondary-100">{formatCost(session.cost)}</div>
+                  <div className="text-secondary-500 dark:text-secondary-400">Session spend</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold text-secondary-900 dark:text-secondary-100">
+                    {formatTokens(session.promptTokens + session.outputTokens)}
+                  </div>
+                  <div className="text-secondary-500 dark:text-secondary-400">{describeTotals(session)}</div>
+                </div>
+                {session.averageTimeToFirstTokenMs !== undefined && (
+                  <div>
+                    <div className="font-semibold text-secondary-900 dark:text-secondary-100">
+                      {formatDuration(session.averageTimeToFirstTokenMs)}
+                    </div>
+                    <div className="text-secondary-500 dark:text-secondary-400">Avg. first token</div>
+                  </div>
+                )}
+                {session.averageLatencyMs !== undefined && (
+                  <div>
+                    <div className="font-semibold text-secondary-900 dark:text-secondary-100">
+                      {formatDuration(session.averageLatencyMs)}
+                    </div>
+                    <div className="text-secondary-500 dark:text-secondary-400">Avg. latency</div>
+                  </div>
+                )}
+              </div>
+
+              {(session.unpricedAnswers > 0 || session.estimatedAnswers > 0) && (
+                <p className="text-secondary-500 dark:text-secondary-400">
+                  {session.unpricedAnswers > 0 && `${session.unpricedAnswers} answer${session.unpricedAnswers === 1 ? '' : 's'} from unpriced models not counted. `}
+                  {session.estimatedAnswers > 0 && `${session.estimatedAnswers} answer${session.estimatedAnswers === 1 ? '' : 's'} with estimated token counts.`}
+                </p>
+              )}
+
+              <section className="flex flex-col gap-1.5">
+                <div className="flex items-center gap-1.5 font-semibold text-secondary-700 dark:text-secondary-300">
+                  <Cpu className="w-3 h-3" />
+                  By model
+                </div>
+                {byModel.map(({ key, label, totals }) => (
+                  <div key={key} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-secondary-700 dark:text-secondary-300">{label}</span>
+                    <span className="flex-shrink-0 text-secondary-500 dark:text-secondary-400">
+                      {describeTotals(totals)} · {formatCost(totals.cost)}
+                    </span>
+                  </div>
+                ))}
+              </section>
+
+              <section className="flex flex-col gap-1.5">
+                <div className="flex items-center gap-1.5 font-semibold text-secondary-700 dark:text-secondary-300">
+                  <GitBranch className="w-3 h-3" />
+                  Most expensive branches
+                </div>
+                {branches.map(({ leaf, depth, totals }) => (
+                  <button
+                    key={leaf.id}
+                    type="button"
+                    onClick={() => onFocusNode(leaf.id)}
+                    className="flex items-center justify-between gap-2 px-1.5 py-1 -mx-1.5 rounded-md text-left hover:bg-secondary-100 dark:hover:bg-secondary-800"
+                    title="Show branch tip on canvas"
+                  >
+                    <span className="truncate text-secondary-700 dark:text-secondary-300">
+                      {leaf.currentExchange.userMessage}
+                    </span>
+                    <span className="flex-shrink-0 text-secondary-500 dark:text-secondary-400">
+                      {depth} turn{depth === 1 ? '' : 's'} · {formatCost(totals.cost)}
+                    </span>
+                  </button>
+                ))}
+              </section>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
@@ -2,3 +2,15 @@ export { ConversationCanvas } from './ConversationCanvas';
 export { MessageNode } from './MessageNode';
 export { RootNode } from './RootNode';
 export { FloatingBranchInput } from './FloatingBranchInput';
+export { ModelPicker } from './ModelPicker';
+export { PersonaPicker } from './PersonaPicker';
+export { GenerationQueue } from './GenerationQueue';
+export { UsagePanel } from './UsagePanel';
+export { AttachmentList } from './AttachmentList';
+export { ToolSteps } from './ToolSteps';
+export { ResponseSchemaForm } from './ResponseSchemaForm';
+export { StructuredResponse } from './StructuredResponse';
+export { CompareModelsPicker } from './CompareModelsPicker';
+export { ComparisonPanel } from './ComparisonPanel';
+export { DeleteNodesDialog } from './DeleteNodesDialog';
+export { TrashPanel } from './TrashPanel';
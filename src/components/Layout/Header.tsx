@@ -1,12 +1,35 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Sparkles, Sun, Moon, Monitor, Settings } from 'lucide-react';
+import { Sparkles, Sun, Moon, Monitor, Settings, Server, KeyRound, HardDrive } from 'lucide-react';
 import { useTheme } from '../../contexts/ThemeContext';
 import { Button } from '../ui';
-import { AI_CONFIG } from '../../config/app';
+import { useConversationStore, useUIStore } from '../../store';
+import {
+  getAvailableProviders,
+  getDefaultProviderId,
+  getModelDisplayName,
+  resolveModelSelection,
+} from '../../services/providerRegistry';
+import type { AIProviderId } from '../../types';
 
 export const Header: React.FC = () => {
   const { theme, setTheme } = useTheme();
+  const { getActiveSession, setSessionProvider, activeNodeId } = useConversationStore();
+  const { openSettings, openCredentials, openStorageCleanup } = useUIStore();
+
+  const activeSession = getActiveSession();
+  const activeProviderId = activeSession?.providerId ?? getDefaultProviderId();
+  const providers = getAvailableProviders();
+
+  // Show the model that answered the selected (or most recent) node,
+  // falling back to what the session would use for a new conversation
+  const nodes = activeSession?.canvas.nodes ?? [];
+  const focusNode = nodes.find(node => node.id === activeNodeId)
+    ?? [...nodes].reverse().find(node => node.metadata?.model);
+  const focusModel = focusNode?.metadata?.providerId && focusNode.metadata.model
+    ? { providerId: focusNode.metadata.providerId, model: focusNode.metadata.model }
+    : resolveModelSelection(focusNode?.config, activeSession);
+  const modelDisplayName = getModelDisplayName(focusModel.providerId, focusModel.model);
 
   const themeIcons = {
     light: Sun,
@@ -57,10 +80,28 @@ export const Header: React.FC = () => {
 
           {/* Controls */}
           <div className="flex items-center gap-2">
+            {/* Provider Selector */}
+            <label className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-secondary-100 dark:bg-secondary-800 rounded-lg text-xs text-secondary-700 dark:text-secondary-300">
+              <Server className="w-3 h-3 text-secondary-500 dark:text-secondary-400" />
+              <select
+                value={activeProviderId}
+                onChange={(e) => activeSession && setSessionProvider(activeSession.id, e.target.value as AIProviderId)}
+                disabled={!activeSession}
+                className="bg-transparent border-none outline-none cursor-pointer"
+                title="AI provider for this conversation"
+              >
+                {providers.map(provider => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.displayName}
+                  </option>
+                ))}
+              </select>
+            </label>
+
             {/* Model Info */}
             <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-secondary-100 dark:bg-secondary-800 rounded-lg text-xs text-secondary-700 dark:text-secondary-300">
               <div className="w-2 h-2 bg-accent-amber-500 rounded-full" />
-              {AI_CONFIG.modelDisplayName}
+              {modelDisplayName}
             </div>
 
             {/* Theme Toggle */}
@@ -74,10 +115,31 @@ export const Header: React.FC = () => {
               <ThemeIcon className="w-4 h-4" />
             </Button>
 
+            {/* API Keys */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={openCredentials}
+              title="API keys"
+            >
+              <KeyRound className="w-4 h-4" />
+            </Button>
+
+            {/* Storage */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={openStorageCleanup}
+              title="Storage"
+            >
+              <HardDrive className="w-4 h-4" />
+            </Button>
+
             {/* Settings */}
             <Button
               variant="ghost"
               size="icon"
+              onClick={openSettings}
               title="Settings"
             >
               <Settings className="w-4 h-4" />
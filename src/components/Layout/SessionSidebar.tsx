@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, PanelLeftClose, PanelLeftOpen, Pencil, Copy, Trash2, MessagesSquare } from 'lucide-react';
+import { Button } from '../ui';
+import { useConversationStore, useSettingsStore } from '../../store';
+import { getSessionPreview } from '../../services/sessionPreview';
+import type { ConversationSession, SessionSort } from '../../types';
+import { cn, formatTimestamp } from '../../utils';
+
+const SORT_LABELS: Record<SessionSort, string> = {
+  recent: 'Recently active',
+  created: 'Newest first',
+  title: 'Title',
+};
+
+const compareSessions: Record<SessionSort, (a: ConversationSession, b: ConversationSession) => number> = {
+  recent: (a, b) => b.metadata.lastActivity.getTime() - a.metadata.lastActivity.getTime(),
+  created: (a, b) => b.canvas.createdAt.getTime() - a.canvas.createdAt.getTime(),
+  title: (a, b) => a.title.localeCompare(b.title),
+};
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Miniature of a session's canvas: nodes as dots joined to their parents
+ */
+const SessionThumbnail: React.FC<{ session: ConversationSession }> = ({ session }) => {
+  const { points, links } = getSessionPreview(session);
+
+  return (
+    <svg
+      viewBox="-0.15 -0.15 1.3 1.3"
+      className="w-14 h-10 flex-shrink-0 rounded-md bg-secondary-100 dark:bg-secondary-800 text-primary-500 dark:text-primary-400"
+      aria-hidden="true"
+    >
+      {links.map(([from, to]) => (
+        <line
+          key={`${from}-${to}`}
+          x1={points[from].x}
+          y1={points[from].y}
+          x2={points[to].x}
+          y2={points[to].y}
+          stroke="currentColor"
+          strokeOpacity={0.4}
+          strokeWidth={0.03}
+        />
+      ))}
+      {points.map((point, index) => (
+        <circle key={index} cx={point.x} cy={point.y} r={0.06} fill="currentColor" />
+      ))}
+    </svg>
+  );
+};
+
+interface SessionRowProps {
+  session: ConversationSession;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * One session in the list, with inline rename
+ */
+const SessionRow: React.FC<SessionRowProps> = ({ session, isActive, onSelect, onRename, onDuplicate, onDelete }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(session.title);
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isActive) rowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isActive]);
+
+  const startRename = () => {
+    setDraftTitle(session.title);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    if (title && title !== session.title) onRename(title);
+    setIsRenaming(false);
+  };
+
+  const handleRenameKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') commitRename();
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      setIsRenaming(false);
+    }
+  };
+
+  const nodeCount = session.canvas.metadata.nodeCount;
+
+  return (
+    <div
+      ref={rowRef}
+      className={cn(
+        'group flex items-center gap-3 px-2 py-2 rounded-lg cursor-pointer transition-colors',
+        isActive
+          ? 'bg-primary-50 dark:bg-primary-900/30 ring-1 ring-primary-200 dark:ring-primary-800'
+          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800'
+      )}
+      onClick={() => !isRenaming && onSelect()}
+      aria-current={isActive ? 'true' : undefined}
+    >
+      <SessionThumbnail session={session} />
+
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <input
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={handleRenameKeyDown}
+            onClick={(e) => e.stopPropagation()}
+            autoFocus
+            className="w-full px-1.5 py-0.5 rounded text-sm bg-white dark:bg-secondary-900 border border-primary-400 outline-none text-secondary-900 dark:text-secondary-100"
+            aria-label="Conversation title"
+          />
+        ) : (
+          <p
+            className="truncate text-sm font-medium text-secondary-900 dark:text-secondary-100"
+            onDoubleClick={startRename}
+            title={session.title}
+          >
+            {session.title}
+          </p>
+        )}
+        <p className="text-xs text-secondary-500 dark:text-secondary-400">
+          {formatTimestamp(session.metadata.lastActivity)} · {nodeCount} {nodeCount === 1 ? 'node' : 'nodes'}
+        </p>
+      </div>
+
+      {!isRenaming && (
+        <div
+          className="flex flex-col opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex">
+            <Button variant="ghost" size="icon" onClick={startRename} className="w-6 h-6" title="Rename">
+              <Pencil className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onDuplicate} className="w-6 h-6" title="Duplicate">
+              <Copy className="w-3 h-3" />
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onDelete}
+            className="w-6 h-6 self-end hover:text-red-600 dark:hover:text-red-400"
+            title="Delete"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Collapsible list of every saved session. Alt+↑/↓ switches between them.
+ */
+export const SessionSidebar: React.FC = () => {
+  const {
+    sessions,
+    activeSessionId,
+    createSession,
+    setActiveSession,
+    renameSession,
+    duplicateSession,
+    deleteSession,
+  } = useConversationStore();
+  const { isSessionSidebarOpen, sessionSort, setSessionSidebarOpen, setSessionSort } = useSettingsStore();
+
+  const sortedSessions = useMemo(
+    () => [...sessions].sort(compareSessions[sessionSort]),
+    [sessions, sessionSort]
+  );
+
+  // Keyboard switching follows the order shown in the list
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')) return;
+      if (isTypingTarget(event.target) || sortedSessions.length < 2) return;
+
+      event.preventDefault();
+      const index = sortedSessions.findIndex(session => session.id === activeSessionId);
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      const next = sortedSessions[(index + step + sortedSessions.length) % sortedSessions.length];
+      setActiveSession(next.id);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [sortedSessions, activeSessionId, setActiveSession]);
+
+  const handleDuplicate = async (sessionId: string) => {
+    const copyId = await duplicateSession(sessionId);
+    if (copyId) setActiveSession(copyId);
+  };
+
+  const handleDelete = (session: ConversationSession) => {
+    const nodeCount = session.canvas.metadata.nodeCount;
+    const detail = nodeCount > 0 ? ` and its ${nodeCount} ${nodeCount === 1 ? 'node' : 'nodes'}` : '';
+    if (window.confirm(`Delete "${session.title}"${detail}? This cannot be undone.`)) {
+      deleteSession(session.id);
+    }
+  };
+
+  if (!isSessionSidebarOpen) {
+    return (
+      <aside className="relative z-30 flex flex-col items-center gap-2 py-3 px-1.5 border-r border-secondary-200/50 dark:border-secondary-700/50 bg-white/80 dark:bg-secondary-900/80 backdrop-blur-sm">
+        <Button variant="ghost" size="icon" onClick={() => setSessionSidebarOpen(true)} className="w-8 h-8" title="Show conversations">
+          <PanelLeftOpen className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => createSession()} className="w-8 h-8" title="New conversation">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </aside>
+    );
+  }
+
+  return (
+    <aside className="relative z-30 w-72 flex-shrink-0 flex flex-col border-r border-secondary-200/50 dark:border-secondary-700/50 bg-white/80 dark:bg-secondary-900/80 backdrop-blur-sm">
+      <div className="flex items-center gap-2 px-4 pt-4 pb-2">
+        <MessagesSquare className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+        <h2 className="flex-1 text-sm font-semibold text-secondary-900 dark:text-secondary-100">Conversations</h2>
+        <Button variant="ghost" size="icon" onClick={() => createSession()} className="w-7 h-7" title="New conversation">
+          <Plus className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => setSessionSidebarOpen(false)} className="w-7 h-7" title="Hide conversations">
+          <PanelLeftClose className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <label className="flex items-center gap-2 px-4 pb-2 text-xs text-secondary-500 dark:text-secondary-400">
+        Sort by
+        <select
+          value={sessionSort}
+          onChange={(e) => setSessionSort(e.target.value as SessionSort)}
+          className="bg-transparent border-none outline-none cursor-pointer text-secondary-700 dark:text-secondary-300"
+        >
+          {(Object.keys(SORT_LABELS) as SessionSort[]).map(sort => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex-1 min-h-0 overflow-y-auto px-2 pb-3 flex flex-col gap-1">
+        {sessions.length === 0 && (
+          <div className="flex flex-col items-center gap-3 px-4 py-8 text-center">
+            <p className="text-xs text-secondary-500 dark:text-secondary-400">No conversations yet</p>
+            <Button variant="secondary" size="sm" onClick={() => createSession()} className="gap-1.5">
+              <Plus className="w-3.5 h-3.5" />
+              New conversation
+            </Button>
+          </div>
+        )}
+        <AnimatePresence initial={false}>
+          {sortedSessions.map(session => (
+            <motion.div
+              key={session.id}
+              layout
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -10 }}
+              transition={{ duration: 0.15 }}
+            >
+              <SessionRow
+                session={session}
+                isActive={session.id === activeSessionId}
+                onSelect={() => setActiveSession(session.id)}
+                onRename={(title) => renameSession(session.id, title)}
+                onDuplicate={() => handleDuplicate(session.id)}
+                onDelete={() => handleDelete(session)}
+              />
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      <p className="px-4 py-2 text-[11px] text-secondary-400 dark:text-secondary-500 border-t border-secondary-200/50 dark:border-secondary-700/50">
+        Alt+↑/↓ to switch · double-click a title to rename
+      </p>
+    </aside>
+  );
+};
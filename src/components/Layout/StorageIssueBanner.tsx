@@ -0,0 +1,114 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, Download, HardDrive, RotateCcw, X } from 'lucide-react';
+import { Button } from '../ui';
+import { conversationStorage, useConversationStore, useUIStore } from '../../store';
+import type { StorageIssueKind } from '../../types';
+
+const ISSUE_HEADINGS: Record<StorageIssueKind, string> = {
+  load: 'Your saved conversations could not be loaded.',
+  quota: 'Browser storage is almost full.',
+  write: 'Your latest changes could not be saved.',
+};
+
+/**
+ * Download the backup of saved conversations that failed to load
+ */
+const downloadBackup = async (backupKey: string) => {
+  const raw = await conversationStorage.readBackup(backupKey);
+  if (!raw) return;
+
+  const url = URL.createObjectURL(new Blob([raw], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${backupKey}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const confirmResumeSaving = (resumeSaving: () => void, backupKey?: string) => {
+  const backupNote = backupKey ? ' The backup stays available for download.' : ' No backup copy could be made, so it will be lost.';
+  if (window.confirm(`Start saving again? What is open now replaces the conversations that failed to load.${backupNote}`)) {
+    resumeSaving();
+  }
+};
+
+/**
+ * Warns when saved conversations could not be loaded or saved, or storage runs low
+ */
+export const StorageIssueBanner: React.FC = () => {
+  const storageIssue = useConversationStore(state => state.storageIssue);
+  const dismissStorageIssue = useConversationStore(state => state.dismissStorageIssue);
+  const resumeSaving = useConversationStore(state => state.resumeSaving);
+  const openStorageCleanup = useUIStore(state => state.openStorageCleanup);
+
+  return (
+    <AnimatePresence>
+      {storageIssue && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          exit={{ opacity: 0, height: 0 }}
+          transition={{ duration: 0.2 }}
+          className="relative z-40 overflow-hidden bg-red-50 dark:bg-red-950/40 border-b border-red-200 dark:border-red-900/50"
+          role="alert"
+        >
+          <div className="flex items-center gap-3 px-6 py-2.5 text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0 text-red-600 dark:text-red-400" />
+            <div className="flex-1 min-w-0 text-red-800 dark:text-red-200">
+              <span className="font-semibold">{ISSUE_HEADINGS[storageIssue.kind]}</span>{' '}
+              <span className="text-red-700/90 dark:text-red-300/90">{storageIssue.message}</span>{' '}
+              {storageIssue.kind === 'load' && (
+                <span className="text-red-700/90 dark:text-red-300/90">
+                  {storageIssue.backupKey
+                    ? `A copy of the original data was kept in browser storage under "${storageIssue.backupKey}".`
+                    : 'No backup copy could be made.'}
+                  {storageIssue.savingPaused && ' Changes are not saved until you start over.'}
+                </span>
+              )}
+            </div>
+            {storageIssue.backupKey && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadBackup(storageIssue.backupKey!)}
+                className="h-7 gap-1.5 px-2.5 text-xs flex-shrink-0"
+              >
+                <Download className="w-3 h-3" />
+                Download backup
+              </Button>
+            )}
+            {storageIssue.savingPaused ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => confirmResumeSaving(resumeSaving, storageIssue.backupKey)}
+                className="h-7 gap-1.5 px-2.5 text-xs flex-shrink-0"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Start over
+              </Button>
+            ) : (
+              <>
+                {storageIssue.kind !== 'load' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={openStorageCleanup}
+                    className="h-7 gap-1.5 px-2.5 text-xs flex-shrink-0"
+                  >
+                    <HardDrive className="w-3 h-3" />
+                    Free up space
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" onClick={dismissStorageIssue} className="w-7 h-7 flex-shrink-0" title="Dismiss">
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1 +1,3 @@
-export { Header } from './Header';
\ No newline at end of file
+export { Header } from './Header';
+export { StorageIssueBanner } from './StorageIssueBanner';
+export { SessionSidebar } from './SessionSidebar';
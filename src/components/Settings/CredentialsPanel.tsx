@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, KeyRound, Lock, Unlock, Plus, Trash2, PlugZap, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+import { useCredentialsStore, useUIStore } from '../../store';
+import {
+  getAvailableProviders,
+  hasEnvApiKey,
+  providerUsesApiKey,
+  testApiKey,
+} from '../../services/providerRegistry';
+import { classifyAIError } from '../../services/aiErrors';
+import type { AIProviderId, StoredCredential } from '../../types';
+import { cn } from '../../utils';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClassName = cn(
+  'w-full px-3 py-1.5 rounded-lg text-sm bg-white dark:bg-secondary-900',
+  'border border-secondary-200 dark:border-secondary-700 outline-none',
+  'focus:border-primary-400 dark:focus:border-primary-500',
+  'text-secondary-900 dark:text-secondary-100 placeholder-secondary-400 dark:placeholder-secondary-500'
+);
+
+/**
+ * Form for choosing the passphrase of a new vault or unlocking an existing one
+ */
+const PassphraseForm: React.FC<{ mode: 'create' | 'unlock' }> = ({ mode }) => {
+  const { createVault, unlock, resetVault } = useCredentialsStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (mode === 'create') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match.');
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    try {
+      if (mode === 'create') {
+        await createVault(passphrase);
+      } else if (!(await unlock(passphrase))) {
+        setError('That passphrase does not unlock your saved keys.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Forget the passphrase and delete every saved API key?')) {
+      resetVault();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <p className="text-xs text-secondary-500 dark:text-secondary-400">
+        {mode === 'create'
+          ? 'Keys are encrypted in this browser with a passphrase you choose. The passphrase is never stored, so it cannot be recovered.'
+          : 'Enter your passphrase to use your saved keys. They stay unlocked until you lock them or reload the page.'}
+      </p>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Passphrase"
+        autoComplete={mode === 'create' ? 'new-password' : 'current-password'}
+        autoFocus
+        className={inputClassName}
+      />
+      {mode === 'create' && (
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Confirm passphrase"
+          autoComplete="new-password"
+          className={inputClassName}
+        />
+      )}
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex items-center justify-between gap-2">
+        <Button type="submit" size="sm" disabled={!passphrase || isWorking}>
+          {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'create' ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+          {mode === 'create' ? 'Create vault' : 'Unlock'}
+        </Button>
+        {mode === 'unlock' && (
+          <Button type="button" variant="ghost" size="sm" onClick={handleReset}>
+            Forgot passphrase?
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+/**
+ * One saved key with its last test result
+ */
+const CredentialRow: React.FC<{ credential: StoredCredential; isActive: boolean }> = ({ credential, isActive }) => {
+  const { secrets, setActiveCredential, removeCredential, recordTestResult } = useCredentialsStore();
+  const [isTesting, setIsTesting] = useState(false);
+
+  const handleTest = async () => {
+    const apiKey = secrets[credential.id];
+    if (!apiKey) return;
+
+    setIsTesting(true);
+    try {
+      await testApiKey(credential.providerId, apiKey);
+      recordTestResult(credential.id, { ok: true, testedAt: new Date().toISOString() });
+    } catch (error) {
+      recordTestResult(credential.id, {
+        ok: false,
+        message: classifyAIError(error).message,
+        testedAt: new Date().toISOString(),
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (window.confirm(`Remove the key "${credential.label}"?`)) {
+      removeCredential(credential.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 px-3 py-2 rounded-lg bg-secondary-50 dark:bg-secondary-800/50">
+      <div className="flex items-center gap-2">
+        <input
+          type="radio"
+          name={`active-${credential.providerId}`}
+          checked={isActive}
+          onChange={() => setActiveCredential(credential.providerId, credential.id)}
+          className="accent-primary-600"
+          aria-label={`Use ${credential.label}`}
+        />
+        <span className="flex-1 min-w-0 truncate text-sm text-secondary-900 dark:text-secondary-100">
+          {credential.label}
+          <span className="ml-2 font-mono text-xs text-secondary-500 dark:text-secondary-400">{credential.hint}</span>
+        </span>
+        <Button variant="ghost" size="icon" onClick={handleTest} disabled={isTesting} className="w-7 h-7" title="Test key">
+          {isTesting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <PlugZap className="w-3.5 h-3.5" />}
+        </Button>
+        <Button variant="ghost" size="icon" onClick={handleRemove} className="w-7 h-7" title="Remove key">
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      {credential.lastTest && (
+        <div
+          className={cn(
+            'flex items-center gap-1 pl-6 text-xs',
+            credential.lastTest.ok ? 'text-accent-emerald-600 dark:text-accent-emerald-400' : 'text-red-600 dark:text-red-400'
+          )}
+        >
+          {credential.lastTest.ok ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+          <span className="truncate">
+            {credential.lastTest.ok ? 'Working' : credential.lastTest.message ?? 'Test failed'}
+            {' · '}
+            {new Date(credential.lastTest.testedAt).toLocaleString()}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Saved keys for one provider and a form to add another
+ */
+const ProviderCredentials: React.FC<{ providerId: AIProviderId; displayName: string }> = ({ providerId, displayName }) => {
+  const { credentials, activeCredentialIds, addCredential } = useCredentialsStore();
+  const [label, setLabel] = useState('');
+  const [apiKey, setApiKey] = useState('');
+
+  const providerCredentials = credentials.filter(credential => credential.providerId === providerId);
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!apiKey.trim()) return;
+
+    await addCredential(providerId, label, apiKey);
+    setLabel('');
+    setApiKey('');
+  };
+
+  return (
+    <section className="flex flex-col gap-2">
+      <h4 className="font-semibold text-secondary-900 dark:text-secondary-100">{displayName}</h4>
+      {providerCredentials.length === 0 && (
+        <p className="text-xs text-secondary-500 dark:text-secondary-400">
+          {hasEnvApiKey(providerId)
+            ? 'No saved keys. Using the key from the environment.'
+            : 'No saved keys.'}
+        </p>
+      )}
+      {providerCredentials.map(credential => (
+        <CredentialRow
+          key={credential.id}
+          credential={credential}
+          isActive={activeCredentialIds[providerId] === credential.id}
+        />
+      ))}
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label"
+          className={cn(inputClassName, 'w-32 flex-shrink-0')}
+          aria-label={`${displayName} key label`}
+        />
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key"
+          autoComplete="off"
+          className={inputClassName}
+          aria-label={`${displayName} API key`}
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={!apiKey.trim()}>
+          <Plus className="w-4 h-4" />
+          Add
+        </Button>
+      </form>
+    </section>
+  );
+};
+
+/**
+ * Dialog for entering, testing, switching and removing provider API keys
+ */
+export const CredentialsPanel: React.FC = () => {
+  const { isCredentialsOpen, closeCredentials } = useUIStore();
+  const { vault, vaultKey, lock } = useCredentialsStore();
+
+  const providers = getAvailableProviders().filter(provider => providerUsesApiKey(provider.id));
+
+  useEffect(() => {
+    if (!isCredentialsOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        closeCredentials();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isCredentialsOpen, closeCredentials]);
+
+  return (
+    <AnimatePresence>
+      {isCredentialsOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-[60] flex items-center justify-center bg-secondary-900/30 dark:bg-black/50 backdrop-blur-sm p-4"
+          onClick={closeCredentials}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="credentials-heading"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+            transition={{ duration: 0.25, ease: [0.16, 1, 0.3, 1] }}
+            className="w-full max-w-xl max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Card variant="elevated" padding="lg">
+              <CardHeader className="flex-row items-center justify-between space-y-0">
+                <CardTitle id="credentials-heading" className="flex items-center gap-2">
+                  <KeyRound className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+                  API Keys
+                </CardTitle>
+                <div className="flex items-center gap-1">
+                  {vaultKey && (
+                    <Button variant="ghost" size="sm" onClick={lock} title="Lock saved keys">
+                      <Lock className="w-4 h-4" />
+                      Lock
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" onClick={closeCredentials} title="Close API keys">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+
+              <CardContent className="flex flex-col gap-6">
+                {!vault ? (
+                  <PassphraseForm mode="create" />
+                ) : !vaultKey ? (
+                  <PassphraseForm mode="unlock" />
+                ) : (
+                  <>
+                    {providers.map(provider => (
+                      <ProviderCredentials key={provider.id} providerId={provider.id} displayName={provider.displayName} />
+                    ))}
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      The selected key is used for new requests right away. Without a saved key, providers fall back to
+                      keys set in the environment at build time.
+                    </p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
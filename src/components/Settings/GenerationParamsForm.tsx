@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { GenerationParams } from '../../types';
+import { AI_CONFIG } from '../../config/app';
+import { cn } from '../../utils';
+
+interface GenerationParamsFormProps {
+  value: GenerationParams;
+  onChange: (value: GenerationParams) => void;
+  inherited?: GenerationParams; // Shown as placeholders for unset fields
+  className?: string;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value?: number;
+  inheritedValue?: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number | undefined) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, inheritedValue, min, max, step, onChange }) => {
+  const handleChange = (raw: string) => {
+    if (raw.trim() === '') {
+      onChange(undefined);
+      return;
+    }
+
+    const parsed = Number(raw);
+    if (!Number.isNaN(parsed)) {
+      onChange(Math.min(max, Math.max(min, parsed)));
+    }
+  };
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-xs font-medium text-secondary-600 dark:text-secondary-400">{label}</span>
+      <input
+        type="number"
+        value={value ?? ''}
+        min={min}
+        max={max}
+        step={step}
+        placeholder={inheritedValue !== undefined ? `${inheritedValue} (inherited)` : 'Default'}
+        onChange={(e) => handleChange(e.target.value)}
+        className={cn(
+          'w-full px-2.5 py-1.5 rounded-lg text-sm bg-white dark:bg-secondary-900',
+          'border border-secondary-200 dark:border-secondary-700 outline-none',
+          'focus:border-primary-400 dark:focus:border-primary-500',
+          'text-secondary-900 dark:text-secondary-100 placeholder-secondary-400 dark:placeholder-secondary-500'
+        )}
+      />
+    </label>
+  );
+};
+
+/**
+ * Form for sampling parameters. Empty fields fall back to the inherited
+ * value (or the provider default) rather than forcing a value.
+ */
+export const GenerationParamsForm: React.FC<GenerationParamsFormProps> = ({
+  value,
+  onChange,
+  inherited,
+  className,
+}) => {
+  const [stopDraft, setStopDraft] = useState('');
+  const limits = AI_CONFIG.generation;
+  const stopSequences = value.stopSequences ?? [];
+
+  const update = (updates: Partial<GenerationParams>) => {
+    onChange({ ...value, ...updates });
+  };
+
+  const addStopSequence = () => {
+    if (!stopDraft || stopSequences.includes(stopDraft) || stopSequences.length >= limits.maxStopSequences) return;
+    update({ stopSequences: [...stopSequences, stopDraft] });
+    setStopDraft('');
+  };
+
+  const removeStopSequence = (sequence: string) => {
+    const remaining = stopSequences.filter(entry => entry !== sequence);
+    update({ stopSequences: remaining.length > 0 ? remaining : undefined });
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-3', className)}>
+      <div className="grid grid-cols-3 gap-3">
+        <NumberField
+          label="Temperature"
+          value={value.temperature}
+          inheritedValue={inherited?.temperature}
+          {...limits.temperature}
+          onChange={(temperature) => update({ temperature })}
+        />
+        <NumberField
+          label="Top-p"
+          value={value.topP}
+          inheritedValue={inherited?.topP}
+          {...limits.topP}
+          onChange={(topP) => update({ topP })}
+        />
+        <NumberField
+          label="Max tokens"
+          value={value.maxOutputTokens}
+          inheritedValue={inherited?.maxOutputTokens}
+          {...limits.maxOutputTokens}
+          step={1}
+          onChange={(maxOutputTokens) => update({ maxOutputTokens: maxOutputTokens && Math.round(maxOutputTokens) })}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-medium text-secondary-600 dark:text-secondary-400">
+          Stop sequences
+          {stopSequences.length === 0 && inherited?.stopSequences && (
+            <span className="font-normal"> (inheriting {inherited.stopSequences.length})</span>
+          )}
+        </span>
+        <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 rounded-lg bg-white dark:bg-secondary-900 border border-secondary-200 dark:border-secondary-700">
+          {stopSequences.map(sequence => (
+            <span
+              key={sequence}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-secondary-100 dark:bg-secondary-800 text-xs font-mono text-secondary-700 dark:text-secondary-300"
+            >
+              {JSON.stringify(sequence)}
+              <button
+                type="button"
+                onClick={() => removeStopSequence(sequence)}
+                className="text-secondary-400 hover:text-secondary-700 dark:hover:text-secondary-200"
+                title="Remove stop sequence"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={stopDraft}
+            onChange={(e) => setStopDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                e.stopPropagation();
+                addStopSequence();
+              }
+            }}
+            disabled={stopSequences.length >= limits.maxStopSequences}
+            placeholder={stopSequences.length >= limits.maxStopSequences ? 'Limit reached' : 'Type and press Enter'}
+            className="flex-1 min-w-[120px] bg-transparent border-none outline-none text-sm text-secondary-900 dark:text-secondary-100 placeholder-secondary-400 dark:placeholder-secondary-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui';
+import type { Persona } from '../../types';
+import { cn, generateId } from '../../utils';
+
+interface PersonaListProps {
+  personas: Persona[];
+  onChange: (personas: Persona[]) => void;
+  className?: string;
+}
+
+const inputClassName = cn(
+  'w-full px-2.5 py-1.5 rounded-lg text-sm bg-white dark:bg-secondary-900',
+  'border border-secondary-200 dark:border-secondary-700 outline-none',
+  'focus:border-primary-400 dark:focus:border-primary-500',
+  'text-secondary-900 dark:text-secondary-100 placeholder-secondary-400 dark:placeholder-secondary-500'
+);
+
+/**
+ * Editable list of saved personas. Branches pointing at a removed persona
+ * fall back to the session prompt.
+ */
+export const PersonaList: React.FC<PersonaListProps> = ({ personas, onChange, className }) => {
+  const updatePersona = (id: string, updates: Partial<Persona>) => {
+    onChange(personas.map(persona => (persona.id === id ? { ...persona, ...updates } : persona)));
+  };
+
+  const addPersona = () => {
+    onChange([...personas, { id: generateId(), name: `Persona ${personas.length + 1}`, systemPrompt: '' }]);
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-3', className)}>
+      {personas.map(persona => (
+        <div
+          key={persona.id}
+          className="flex flex-col gap-2 p-3 rounded-xl border border-secondary-200 dark:border-secondary-700 bg-secondary-50/50 dark:bg-secondary-800/40"
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={persona.name}
+              onChange={(e) => updatePersona(persona.id, { name: e.target.value })}
+              placeholder="Persona name"
+              className={cn(inputClassName, 'font-medium')}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(personas.filter(entry => entry.id !== persona.id))}
+              title="Delete persona"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <textarea
+            value={persona.systemPrompt}
+            onChange={(e) => updatePersona(persona.id, { systemPrompt: e.target.value })}
+            placeholder="System prompt, e.g. You are a meticulous code reviewer..."
+            rows={3}
+            className={cn(inputClassName, 'resize-y')}
+          />
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addPersona} className="self-start">
+        <Plus className="w-4 h-4" />
+        Add persona
+      </Button>
+    </div>
+  );
+};
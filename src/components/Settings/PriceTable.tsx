@@ -0,0 +1,87 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '../ui';
+import { useSettingsStore } from '../../store';
+import { getConfiguredModels } from '../../services/providerRegistry';
+import { getConfiguredPrice, getPriceKey } from '../../services/usage';
+import { AI_CONFIG } from '../../config/app';
+import type { ModelPrice } from '../../types';
+import { cn } from '../../utils';
+
+interface PriceTableProps {
+  className?: string;
+}
+
+const inputClassName = cn(
+  'w-20 px-2 py-1 rounded-lg text-sm bg-white dark:bg-secondary-900 text-right',
+  'border border-secondary-200 dark:border-secondary-700 outline-none',
+  'focus:border-primary-400 dark:focus:border-primary-500',
+  'text-secondary-900 dark:text-secondary-100 placeholder-secondary-400 dark:placeholder-secondary-500'
+);
+
+/**
+ * Per-model prices used to turn token usage into cost. Empty fields use the
+ * configured price.
+ */
+export const PriceTable: React.FC<PriceTableProps> = ({ className }) => {
+  const { priceOverrides, setModelPrice } = useSettingsStore();
+  const models = getConfiguredModels();
+  const unit = AI_CONFIG.usage.priceUnitTokens.toLocaleString();
+
+  const updatePrice = (key: string, configured: ModelPrice | undefined, field: keyof ModelPrice, raw: string) => {
+    const current = priceOverrides[key] ?? configured ?? { input: 0, output: 0 };
+    const parsed = Number(raw);
+    if (raw.trim() === '' || Number.isNaN(parsed) || parsed < 0) return;
+
+    setModelPrice(key, { ...current, [field]: parsed });
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      <div className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-2 gap-y-1.5 text-xs">
+        <span className="font-medium text-secondary-600 dark:text-secondary-400">Model</span>
+        <span className="font-medium text-secondary-600 dark:text-secondary-400 text-right">Input</span>
+        <span className="font-medium text-secondary-600 dark:text-secondary-400 text-right">Output</span>
+        <span />
+
+        {models.map(model => {
+          const key = getPriceKey(model.providerId, model.id);
+          const configured = getConfiguredPrice(model.providerId, model.id);
+          const override = priceOverrides[key];
+
+          return (
+            <React.Fragment key={key}>
+              <span className="truncate text-secondary-800 dark:text-secondary-200">{model.displayName}</span>
+              {(['input', 'output'] as const).map(field => (
+                <input
+                  key={field}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={override?.[field] ?? ''}
+                  placeholder={configured ? String(configured[field]) : '—'}
+                  onChange={(e) => updatePrice(key, configured, field, e.target.value)}
+                  className={inputClassName}
+                  aria-label={`${model.displayName} ${field} price`}
+                />
+              ))}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setModelPrice(key, null)}
+                disabled={!override}
+                className="w-7 h-7"
+                title="Use the configured price"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+              </Button>
+            </React.Fragment>
+          );
+        })}
+      </div>
+      <p className="text-xs text-secondary-500 dark:text-secondary-400">
+        Prices in {AI_CONFIG.usage.currency} per {unit} tokens, shared by every session.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, SlidersHorizontal, MessageSquareText, VenetianMask, Download, Coins, Wrench } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+import { GenerationParamsForm } from './GenerationParamsForm';
+import { PersonaList } from './PersonaList';
+import { PriceTable } from './PriceTable';
+import { ToolList } from './ToolList';
+import { useConversationStore, useUIStore } from '../../store';
+import { AI_CONFIG } from '../../config/app';
+import { downloadRecordedFixtures, getFixtureMode, getRecordedFixtureCount } from '../../services/fixtureProvider';
+import { cn } from '../../utils';
+
+/**
+ * Session settings dialog opened from the header
+ */
+export const SettingsPanel: React.FC = () => {
+  const { isSettingsOpen, closeSettings } = useUIStore();
+  const { getActiveSession, updateSessionSettings } = useConversationStore();
+
+  const session = getActiveSession();
+  const isRecordingFixtures = getFixtureMode() === 'record';
+  const recordedFixtureCount = isRecordingFixtures ? getRecordedFixtureCount() : 0;
+
+  useEffect(() => {
+    if (!isSettingsOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        closeSettings();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSettingsOpen, closeSettings]);
+
+  return (
+    <AnimatePresence>
+      {isSettingsOpen && session && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-[60] flex items-center justify-center bg-secondary-900/30 dark:bg-black/50 backdrop-blur-sm p-4"
+          onClick={closeSettings}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="settings-heading"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+            transition={{ duration: 0.25, ease: [0.16, 1, 0.3, 1] }}
+            className="w-full max-w-xl max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Card variant="elevated" padding="lg">
+              <CardHeader className="flex-row items-center justify-between space-y-0">
+                <CardTitle id="settings-heading">Conversation Settings</CardTitle>
+                <Button variant="ghost" size="icon" onClick={closeSettings} title="Close settings">
+                  <X className="w-4 h-4" />
+                </Button>
+              </CardHeader>
+
+              <CardContent className="flex flex-col gap-6">
+                <section className="flex flex-col gap-3">
+                  <div className="flex items-center gap-2">
+                    <MessageSquareText className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+                    <h4 className="font-semibold text-secondary-900 dark:text-secondary-100">System prompt</h4>
+                  </div>
+                  <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                    Sent with every request in this session unless a branch switches to a persona. Leave empty for the default.
+                  </p>
+                  <textarea
+                    value={session.settings?.systemPrompt ?? ''}
+                    onChange={(e) => updateSessionSettings(session.id, { systemPrompt: e.target.value || undefined })}
+                    placeholder={AI_CONFIG.systemInstruction}
+                    rows={4}
+                    className={cn(
+                      'w-full px-3 py-2 rounded-lg text-sm bg-white dark:bg-secondary-900 resize-y',
+                      'border border-secondary-200 dark:border-secondary-700 outline-none',
+                      'focus:border-primary-400 dark:focus:border-primary-500',
+                      'text-secondary-900 dark:text-secondary-100 placeholder-secondary-400 dark:placeholder-secondary-500'
+                    )}
+                  />
+                </section>
+
+                <section className="flex flex-col gap-3">
+                  <div className="flex items-center gap-2">
+                    <VenetianMask className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+                    <h4 className="font-semibold text-secondary-900 dark:text-secondary-100">Personas</h4>
+                  </div>
+                  <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                    Saved system prompts a branch can switch to from its branch point onward.
+                  </p>
+                  <PersonaList
+                    personas={session.settings?.personas ?? []}
+                    onChange={(personas) => updateSessionSettings(session.id, { personas })}
+                  />
+                </section>
+
+                <section className="flex flex-col gap-3">
+                  <div className="flex items-center gap-2">
+                    <Wrench className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+                    <h4 className="font-semibold text-secondary-900 dark:text-secondary-100">Tools</h4>
+                  </div>
+                  <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                    Tools the model may call while answering. Calls and their results are shown in the node and passed on to its branches.
+                  </p>
+                  <ToolList
+                    enabled={session.settings?.tools ?? []}
+                    onChange={(tools) => updateSessionSettings(session.id, { tools })}
+                  />
+                </section>
+
+                <section className="flex flex-col gap-3">
+                  <div className="flex items-center gap-2">
+                    <SlidersHorizontal className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+                    <h4 className="font-semibold text-secondary-900 dark:text-secondary-100">Sampling parameters</h4>
+                  </div>
+                  <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                    Defaults for every branch in "{session.title}". Branches can override individual values; empty fields use the provider's defaults.
+                  </p>
+                  <GenerationParamsForm
+                    value={session.settings?.generation ?? {}}
+                    onChange={(generation) => updateSessionSettings(session.id, { generation })}
+                  />
+                </section>
+
+                <section className="flex flex-col gap-3">
+                  <div className="flex items-center gap-2">
+                    <Coins className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+                    <h4 className="font-semibold text-secondary-900 dark:text-secondary-100">Pricing</h4>
+                  </div>
+                  <PriceTable />
+                </section>
+
+                {isRecordingFixtures && (
+                  <section className="flex flex-col gap-3">
+                    <div className="flex items-center gap-2">
+                      <Download className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+                      <h4 className="font-semibold text-secondary-900 dark:text-secondary-100">Recorded fixtures</h4>
+                    </div>
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      {recordedFixtureCount} exchange{recordedFixtureCount === 1 ? '' : 's'} recorded since the page loaded.
+                      Save the file to fixtures/ai and run with VITE_AI_FIXTURES=replay to play them back.
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={downloadRecordedFixtures}
+                      disabled={recordedFixtureCount === 0}
+                      className="self-start"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download fixtures
+                    </Button>
+                  </section>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
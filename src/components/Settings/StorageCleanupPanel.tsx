@@ -0,0 +1,173 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, HardDrive, Trash2, Archive, Loader2 } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+import { conversationStorage, useConversationStore, useUIStore } from '../../store';
+import { formatBytes, type StorageUsage } from '../../services/conversationStorage';
+import { cn } from '../../utils';
+
+/**
+ * Dialog listing saved conversations by size, for freeing browser storage
+ */
+export const StorageCleanupPanel: React.FC = () => {
+  const { isStorageCleanupOpen, closeStorageCleanup } = useUIStore();
+  const { sessions, activeSessionId, storageIssue, deleteSession, dismissStorageIssue } = useConversationStore();
+  const [usage, setUsage] = useState<StorageUsage>();
+  const [sizes, setSizes] = useState<Record<string, number>>({});
+  const [isMeasuring, setIsMeasuring] = useState(false);
+
+  const measure = useCallback(async () => {
+    setIsMeasuring(true);
+    try {
+      const { sessions, activeSessionId, activeNodeId, textSelection } = useConversationStore.getState();
+      const [nextUsage, nextSizes] = await Promise.all([
+        conversationStorage.estimateUsage(),
+        conversationStorage.estimateSessionSizes({ sessions, activeSessionId, activeNodeId, textSelection }),
+      ]);
+      setUsage(nextUsage);
+      setSizes(nextSizes);
+    } catch (error) {
+      console.error('Failed to measure saved conversations:', error);
+    } finally {
+      setIsMeasuring(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isStorageCleanupOpen) measure();
+  }, [isStorageCleanupOpen, sessions.length, measure]);
+
+  useEffect(() => {
+    if (!isStorageCleanupOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        closeStorageCleanup();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isStorageCleanupOpen, closeStorageCleanup]);
+
+  const handleDeleteSession = (sessionId: string, title: string) => {
+    if (window.confirm(`Delete "${title}"? This cannot be undone.`)) {
+      deleteSession(sessionId);
+    }
+  };
+
+  const handleClearBackups = async () => {
+    if (!window.confirm('Delete the backup copies kept from earlier upgrades?')) return;
+    await conversationStorage.clearBackups();
+    // A load warning would otherwise offer a backup that no longer exists
+    if (storageIssue?.backupKey) dismissStorageIssue();
+    measure();
+  };
+
+  const sortedSessions = [...sessions].sort((a, b) => (sizes[b.id] ?? 0) - (sizes[a.id] ?? 0));
+  const usageRatio = usage ? Math.min(usage.usage / usage.quota, 1) : 0;
+
+  return (
+    <AnimatePresence>
+      {isStorageCleanupOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-[60] flex items-center justify-center bg-secondary-900/30 dark:bg-black/50 backdrop-blur-sm p-4"
+          onClick={closeStorageCleanup}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="storage-cleanup-heading"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+            transition={{ duration: 0.25, ease: [0.16, 1, 0.3, 1] }}
+            className="w-full max-w-lg max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Card variant="elevated" padding="lg">
+              <CardHeader className="flex-row items-center justify-between space-y-0">
+                <CardTitle id="storage-cleanup-heading" className="flex items-center gap-2">
+                  <HardDrive className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+                  Storage
+                </CardTitle>
+                <Button variant="ghost" size="icon" onClick={closeStorageCleanup} title="Close storage">
+                  <X className="w-4 h-4" />
+                </Button>
+              </CardHeader>
+
+              <CardContent className="flex flex-col gap-4">
+                <section className="flex flex-col gap-1.5">
+                  {usage ? (
+                    <>
+                      <div className="flex justify-between text-xs text-secondary-600 dark:text-secondary-400">
+                        <span>{formatBytes(usage.usage)} used</span>
+                        <span>{formatBytes(usage.quota)} available</span>
+                      </div>
+                      <div className="h-2 rounded-full bg-secondary-200 dark:bg-secondary-700 overflow-hidden">
+                        <div
+                          className={cn('h-full rounded-full', usageRatio >= 0.8 ? 'bg-red-500' : 'bg-primary-500')}
+                          style={{ width: `${usageRatio * 100}%` }}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      This browser does not report how much storage is available.
+                    </p>
+                  )}
+                </section>
+
+                <section className="flex flex-col gap-1">
+                  <h3 className="flex items-center gap-2 text-sm font-semibold text-secondary-900 dark:text-secondary-100">
+                    Conversations by size
+                    {isMeasuring && <Loader2 className="w-3.5 h-3.5 animate-spin text-secondary-400" />}
+                  </h3>
+                  {sortedSessions.map(session => (
+                    <div
+                      key={session.id}
+                      className="flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800"
+                    >
+                      <span className="flex-1 truncate text-sm text-secondary-800 dark:text-secondary-200">
+                        {session.title}
+                        {session.id === activeSessionId && (
+                          <span className="ml-2 text-xs text-secondary-500 dark:text-secondary-400">(open)</span>
+                        )}
+                      </span>
+                      <span className="text-xs tabular-nums text-secondary-500 dark:text-secondary-400">
+                        {sizes[session.id] !== undefined ? formatBytes(sizes[session.id]) : '—'}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteSession(session.id, session.title)}
+                        className="w-7 h-7 hover:text-red-600 dark:hover:text-red-400"
+                        title="Delete conversation"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </section>
+
+                <div className="flex items-center justify-between gap-3 pt-2 border-t border-secondary-200 dark:border-secondary-700">
+                  <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                    Backups are copies of your data made before upgrades.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={handleClearBackups} className="flex-shrink-0">
+                    <Archive className="w-4 h-4" />
+                    Delete backups
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { getAvailableTools } from '../../services/toolRegistry';
+import { cn } from '../../utils';
+
+interface ToolListProps {
+  enabled: string[];
+  onChange: (enabled: string[]) => void;
+  className?: string;
+}
+
+/**
+ * Checkboxes for the built-in tools the model may call
+ */
+export const ToolList: React.FC<ToolListProps> = ({ enabled, onChange, className }) => {
+  const tools = getAvailableTools();
+
+  const toggle = (name: string, checked: boolean) => {
+    onChange(checked ? [...enabled, name] : enabled.filter(entry => entry !== name));
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      {tools.map(({ label, definition }) => (
+        <label key={definition.name} className="flex items-start gap-2.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled.includes(definition.name)}
+            onChange={(e) => toggle(definition.name, e.target.checked)}
+            className="mt-0.5 accent-primary-600"
+          />
+          <span className="flex flex-col">
+            <span className="text-sm font-medium text-secondary-900 dark:text-secondary-100">{label}</span>
+            <span className="text-xs text-secondary-500 dark:text-secondary-400">{definition.description}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+};
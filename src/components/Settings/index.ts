@@ -0,0 +1,7 @@
+export { SettingsPanel } from './SettingsPanel';
+export { CredentialsPanel } from './CredentialsPanel';
+export { GenerationParamsForm } from './GenerationParamsForm';
+export { PersonaList } from './PersonaList';
+export { PriceTable } from './PriceTable';
+export { ToolList } from './ToolList';
+export { StorageCleanupPanel } from './StorageCleanupPanel';
@@ -1,2 +1,3 @@
 export * from './Layout';
 export * from './Canvas';
+export * from './Settings';
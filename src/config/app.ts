@@ -5,6 +5,99 @@ export const APP_CONFIG = {
     modelName: 'gemini-2.5-flash',
     modelDisplayName: 'Gemini 2.5 Flash',
     provider: 'Google',
+    defaultProvider: 'gemini',
+    systemInstruction:
+      'You are a helpful assistant inside Lattice, a canvas where conversations branch into independent threads. ' +
+      'Only the turns you are given belong to the current branch. When the user quotes an excerpt from an earlier answer, ' +
+      'focus your reply on that excerpt.',
+    context: {
+      reservedOutputTokens: 2048, // Kept free for the model's answer
+      compactionThreshold: 0.9, // Compact once history reaches this share of the budget
+      summaryTokens: 512, // Budget set aside for a summary of compacted turns
+      summarizeCompactedTurns: true, // Summarize dropped turns instead of only trimming them
+    },
+    generation: {
+      temperature: { min: 0, max: 2, step: 0.1 },
+      topP: { min: 0, max: 1, step: 0.05 },
+      maxOutputTokens: { min: 1, max: 65536 },
+      maxStopSequences: 5,
+    },
+    attachments: {
+      maxFileBytes: 4 * 1024 * 1024, // Files are stored with the session and resent with every descendant request
+      maxFilesPerPrompt: 6,
+      imageMimeTypes: ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/heic', 'image/heif'],
+      textExtensions: [
+        'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'yaml', 'yml', 'xml', 'html', 'css', 'log',
+        'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'swift',
+        'php', 'sh', 'sql', 'toml', 'ini',
+      ],
+      // Rough token costs for the context budget
+      imageTokens: 258,
+      pdfTokensPerPage: 258,
+      pdfBytesPerPage: 50_000,
+    },
+    tools: {
+      maxSteps: 5, // Tool rounds per answer before the model must reply
+      sandboxTimeoutMs: 3000, // JavaScript runner time limit
+      maxResultChars: 4000, // Longer tool output is truncated before it is sent back
+    },
+    variants: {
+      maxCount: 5, // Sibling nodes one prompt can fan out into
+      temperatureRange: { min: 0.2, max: 1.4 }, // Spread used when variants vary temperature
+    },
+    streaming: {
+      maxConcurrent: 3, // Generations streaming at once; the rest wait in a queue
+    },
+    retry: {
+      maxAttempts: 3, // Including the first attempt
+      baseDelayMs: 1000,
+      maxDelayMs: 8000,
+    },
+    providers: {
+      gemini: {
+        displayName: 'Google Gemini',
+        defaultModel: 'gemini-2.5-flash',
+        models: [
+          // Prices in USD per million tokens
+          { id: 'gemini-2.5-flash', displayName: 'Gemini 2.5 Flash', contextWindow: 1048576, price: { input: 0.3, output: 2.5 } },
+          { id: 'gemini-2.5-pro', displayName: 'Gemini 2.5 Pro', contextWindow: 1048576, price: { input: 1.25, output: 10 } },
+          { id: 'gemini-2.5-flash-lite', displayName: 'Gemini 2.5 Flash Lite', contextWindow: 1048576, price: { input: 0.1, output: 0.4 } },
+        ],
+        defaultContextWindow: 1048576,
+      },
+      'openai-compatible': {
+        displayName: 'Local (OpenAI-compatible)',
+        defaultModel: 'llama3.1',
+        baseUrl: 'http://localhost:11434/v1', // Ollama default; llama.cpp server uses :8080/v1
+        models: [
+          { id: 'llama3.1', displayName: 'Llama 3.1', contextWindow: 8192 },
+        ],
+        defaultContextWindow: 8192, // Conservative default for local servers
+        defaultPrice: { input: 0, output: 0 }, // Local models cost nothing per token
+      },
+      mock: {
+        displayName: 'Mock (offline)',
+        defaultModel: 'mock-echo',
+        models: [
+          { id: 'mock-echo', displayName: 'Mock Echo', contextWindow: 32768 },
+          { id: 'mock-scripted', displayName: 'Mock Scripted', contextWindow: 32768 },
+        ],
+        defaultContextWindow: 32768,
+        defaultPrice: { input: 0, output: 0 },
+        firstChunkDelayMs: 400, // Simulated time to first token
+        chunkDelayMs: 30, // Simulated delay between streamed chunks
+        chunkSize: 12, // Characters per streamed chunk
+        scriptedResponses: [
+          'Here is a structured answer.\n\n1. First, restate the problem.\n2. Then, break it into smaller parts.\n3. Finally, check each part against the original goal.',
+          'Short answer: it depends on the constraints. Select part of this reply and branch from it to explore one of them.',
+          'Consider the trade-off between simplicity and flexibility. A simpler design is easier to reason about; a flexible one adapts to change but costs more up front.',
+        ],
+      },
+    },
+    usage: {
+      currency: 'USD',
+      priceUnitTokens: 1_000_000, // Prices are quoted per this many tokens
+    },
   },
 
   // Application Info
@@ -14,6 +107,14 @@ export const APP_CONFIG = {
     version: '1.0.0',
   },
 
+  // Saved conversations
+  storage: {
+    databaseName: 'lattice',
+    writeDebounceMs: 400, // Changes are batched into one IndexedDB transaction
+    quotaWarningRatio: 0.8, // Warn once the origin uses this share of its storage quota
+    previewMaxNodes: 60, // Nodes kept in a session's thumbnail outline
+  },
+
   // UI Configuration
   ui: {
     animations: {
@@ -32,8 +133,16 @@ export const APP_CONFIG = {
       width: 192, // 48 * 4 (12rem equivalent)
       height: 128, // 32 * 4 (8rem equivalent)
     },
+    history: {
+      maxEntries: 100, // Undo steps kept per session
+      maxBytes: 4 * 1024 * 1024, // Approximate size of the data those steps hold on to
+      coalesceMs: 1000, // Repeated edits of the same field within this window undo as one step
+    },
+    trash: {
+      maxItems: 50, // Older deletes are dropped for good once a session's trash is full
+    },
   },
 } as const;
 
 // Export individual configs for convenience
-export const { ai: AI_CONFIG, app: APP_CONFIG_INFO, ui: UI_CONFIG } = APP_CONFIG;
+export const { ai: AI_CONFIG, app: APP_CONFIG_INFO, storage: STORAGE_CONFIG, ui: UI_CONFIG } = APP_CONFIG;
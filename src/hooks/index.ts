@@ -1 +1,2 @@
 export { useAIChat } from './useAIChat';
+export { useAvailableModels } from './useAvailableModels';
\ No newline at end of file
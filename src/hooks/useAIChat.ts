@@ -1,13 +1,24 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { getGeminiService } from '../services/geminiService';
+import { getAIProvider, resolveModelSelection } from '../services/providerRegistry';
+import { AIServiceError, classifyAIError } from '../services/aiErrors';
+import { withRetry, withStreamRetry } from '../services/retry';
+import { estimateMessageTokens, estimateTokens, prepareContext, withCompactionSummary } from '../services/contextBudget';
+import { getStreamScheduler } from '../services/streamScheduler';
+import { mergeGenerationParams } from '../services/generationParams';
+import { resolvePersona, resolveSystemPrompt } from '../services/personas';
+import { executeToolCall, getToolDefinitions } from '../services/toolRegistry';
+import { validateStructuredResponse } from '../services/structuredOutput';
+import { AI_CONFIG } from '../config/app';
 import { useConversationStore } from '../store';
-import type { ConversationMessage, ChatMessage } from '../types';
+import type { ConversationMessage, ChatMessage, NodeMetadata, TokenUsage, ToolCall, ToolStep } from '../types';
 
 interface UseAIChat {
   isLoading: boolean;
   error: string | null;
-  sendMessage: (message: string, nodeId?: string) => Promise<string>;
-  streamMessage: (message: string, nodeId?: string) => Promise<string>;
+  // Both default to the active session; the answer is written to the node's session even after switching away
+  sendMessage: (message: string, nodeId?: string, sessionId?: string) => Promise<string>;
+  streamMessage: (message: string, nodeId?: string, sessionId?: string) => Promise<string>;
+  abortStreaming: (nodeId?: string) => void;
   clearError: () => void;
 }
 
@@ -17,14 +28,21 @@ interface UseAIChat {
  */
 export const useAIChat = (): UseAIChat => {
   const [isLoading, setIsLoading] = useState(false);
+  const [pendingStreams, setPendingStreams] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
 
   const {
-    getNodeConversation,
+    getActiveSession,
+    getSession,
+    getNode,
+    updateNode,
+    getNodeHistory,
+    queueStreaming,
     startStreaming,
     updateStreamingText,
     finishStreaming,
+    clearStreaming,
   } = useConversationStore();
 
   const clearError = useCallback(() => {
@@ -32,30 +50,124 @@ export const useAIChat = (): UseAIChat => {
   }, []);
 
   /**
-   * Get the AI service instance with proper error handling
+   * Get the provider, model, sampling parameters and system prompt a node
+   * runs on: the branch's own picks, inherited from its ancestors, over the
+   * session defaults
    */
-  const getAIService = useCallback(() => {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    
-    if (!apiKey || apiKey === 'your_gemini_api_key_here') {
-      throw new Error('Gemini API key not configured. Please set VITE_GEMINI_API_KEY in your environment variables.');
-    }
-    
-    return getGeminiService(apiKey);
-  }, []);
+  const getAIService = useCallback((nodeId: string, sessionId: string) => {
+    const session = getSession(sessionId);
+    const config = getNode(nodeId, sessionId)?.config;
+    const { providerId, model } = resolveModelSelection(config, session);
+    const generation = mergeGenerationParams(session?.settings?.generation, config?.generation);
+    const persona = resolvePersona(config, session);
+    return {
+      aiService: getAIProvider(providerId),
+      model,
+      generation,
+      systemPrompt: resolveSystemPrompt(config, session),
+      persona: persona ? { id: persona.id, name: persona.name } : undefined,
+      // Tools are not offered alongside structured output; providers reject the combination
+      tools: config?.responseSchema ? [] : getToolDefinitions(session?.settings?.tools ?? []),
+      responseSchema: config?.responseSchema ?? undefined,
+    };
+  }, [getNode, getSession]);
+
+  /**
+   * Which revision of the parent's answer a node's answer builds on
+   */
+  const getParentRevisionId = useCallback((nodeId: string, sessionId: string) => {
+    const parentId = getNode(nodeId, sessionId)?.parentId;
+    return parentId ? getNode(parentId, sessionId)?.revisionId : undefined;
+  }, [getNode]);
+
+  /**
+   * Record how a node's answer was produced: provider, model and what context it saw
+   */
+  const recordGenerationMetadata = useCallback((nodeId: string, sessionId: string, updates: NodeMetadata) => {
+    const node = getNode(nodeId, sessionId);
+    if (!node) return;
+
+    updateNode(nodeId, {
+      metadata: {
+        ...node.metadata,
+        ...updates,
+      },
+    }, { recordHistory: false, sessionId });
+  }, [getNode, updateNode]);
+
+  /**
+   * Record token usage and timings for a node's answer, estimating the
+   * token counts locally when the provider reported none
+   */
+  const recordUsage = useCallback((
+    nodeId: string,
+    sessionId: string,
+    request: { messages: ConversationMessage[]; systemInstruction: string; response: string },
+    timing: { startedAt: number; firstTokenAt?: number },
+    reported?: TokenUsage
+  ) => {
+    const finishedAt = performance.now();
+    const usage = reported ?? {
+      promptTokens: request.messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0)
+        + estimateTokens(request.systemInstruction),
+      outputTokens: estimateTokens(request.response),
+    };
+
+    recordGenerationMetadata(nodeId, sessionId, {
+      usage: {
+        ...usage,
+        estimated: !reported || undefined,
+        timeToFirstTokenMs: timing.firstTokenAt !== undefined ? Math.round(timing.firstTokenAt - timing.startedAt) : undefined,
+        latencyMs: Math.round(finishedAt - timing.startedAt),
+      },
+    });
+  }, [recordGenerationMetadata]);
+
+  /**
+   * Build the request history for a node: everything inherited from its
+   * ancestors followed by the node's own prompt (with its quote context)
+   */
+  const buildRequestHistory = useCallback((message: string, nodeId: string, sessionId: string): ConversationMessage[] => {
+    const history = getNodeHistory(nodeId, sessionId);
+    const node = getNode(nodeId, sessionId);
+
+    // Convert ChatMessage[] to ConversationMessage[] format for AI service
+    const conversationHistory: ConversationMessage[] = history.map((msg: ChatMessage) => ({
+      id: crypto.randomUUID(),
+      content: msg.content,
+      role: msg.role,
+      timestamp: msg.timestamp,
+      quotedText: msg.quotedText,
+      attachments: msg.attachments,
+      toolCalls: msg.toolCalls,
+      toolResults: msg.toolResults,
+    }));
+
+    // Add the new user message to history for AI context
+    const userMessage: ConversationMessage = {
+      id: crypto.randomUUID(),
+      content: message.trim(),
+      role: 'user',
+      timestamp: new Date(),
+      quotedText: node?.currentExchange.quotedText,
+      attachments: node?.currentExchange.attachments,
+    };
+
+    return [...conversationHistory, userMessage];
+  }, [getNodeHistory, getNode]);
 
   /**
    * Send a message and get a complete response
    */
   const sendMessage = useCallback(
-    async (message: string, nodeId?: string): Promise<string> => {
+    async (message: string, nodeId?: string, sessionId = getActiveSession()?.id): Promise<string> => {
       if (!message.trim()) {
         const error = 'Message cannot be empty';
         setError(error);
         throw new Error(error);
       }
 
-      if (!nodeId) {
+      if (!nodeId || !sessionId) {
         const error = 'Node ID is required for message context';
         setError(error);
         throw new Error(error);
@@ -65,133 +177,237 @@ export const useAIChat = (): UseAIChat => {
       setError(null);
 
       try {
-        // Get conversation history for the specified node
-        const history = getNodeConversation(nodeId);
-        
-        // Convert ChatMessage[] to ConversationMessage[] format for AI service
-        const conversationHistory: ConversationMessage[] = history.map((msg: ChatMessage) => ({
-          id: crypto.randomUUID(),
-          content: msg.content,
-          role: msg.role,
-          timestamp: msg.timestamp,
-          quotedText: msg.quotedText,
+        const updatedHistory = buildRequestHistory(message, nodeId, sessionId);
+
+        // Get AI service and fit the history into the model's context budget
+        const { aiService, model, generation, systemPrompt, persona, responseSchema } = getAIService(nodeId, sessionId);
+        const context = await prepareContext(aiService, updatedHistory, model, { systemInstruction: systemPrompt });
+        recordGenerationMetadata(nodeId, sessionId, { providerId: aiService.id, model, generation, persona, compaction: context.compaction, parentRevisionId: getParentRevisionId(nodeId, sessionId) });
+
+        // Generate response, retrying transient failures
+        const systemInstruction = withCompactionSummary(systemPrompt, context.summary);
+        const startedAt = performance.now();
+        let usage: TokenUsage | undefined;
+        const response = await withRetry(() => aiService.generateResponse(context.messages, {
+          model,
+          generation,
+          systemInstruction,
+          responseSchema,
+          onUsage: reported => { usage = reported; },
         }));
-        
-        // Add the new user message to history for AI context
-        const userMessage: ConversationMessage = {
-          id: crypto.randomUUID(),
-          content: message.trim(),
-          role: 'user',
-          timestamp: new Date(),
-        };
-        const updatedHistory = [...conversationHistory, userMessage];
-
-        // Get AI service and generate response
-        const aiService = getAIService();
-        const response = await aiService.generateResponse(updatedHistory);
 
+        recordUsage(nodeId, sessionId, { messages: context.messages, systemInstruction, response }, { startedAt }, usage);
+        if (responseSchema) {
+          validateStructuredResponse(response, responseSchema);
+        }
         return response;
 
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
-        setError(errorMessage);
-        throw err;
+        const aiError = classifyAIError(err);
+        setError(aiError.message);
+        throw aiError;
       } finally {
         setIsLoading(false);
       }
     },
-    [getNodeConversation, getAIService]
+    [buildRequestHistory, getActiveSession, getAIService, getParentRevisionId, recordGenerationMetadata, recordUsage]
   );
 
   /**
-   * Stream a message response with real-time updates
+   * Stream a message response with real-time updates. Each node streams
+   * independently; requests beyond the concurrency limit wait in a queue.
+   * Aborting keeps the partial answer in the node and marks it as stopped.
    */
   const streamMessage = useCallback(
-    async (message: string, nodeId?: string): Promise<string> => {
+    async (message: string, nodeId?: string, sessionId = getActiveSession()?.id): Promise<string> => {
       if (!message.trim()) {
         const error = 'Message cannot be empty';
         setError(error);
         throw new Error(error);
       }
 
-      if (!nodeId) {
+      if (!nodeId || !sessionId) {
         const error = 'Node ID is required for message context';
         setError(error);
         throw new Error(error);
       }
 
-      setIsLoading(true);
+      setPendingStreams(count => count + 1);
       setError(null);
-      abortControllerRef.current = new AbortController();
+
+      const abortController = new AbortController();
+      abortControllersRef.current.set(nodeId, abortController);
+      let fullResponse = '';
 
       try {
-        // Get conversation history for the specified node
-        const history = getNodeConversation(nodeId);
-        
-        // Convert ChatMessage[] to ConversationMessage[] format for AI service
-        const conversationHistory: ConversationMessage[] = history.map((msg: ChatMessage) => ({
-          id: crypto.randomUUID(),
-          content: msg.content,
-          role: msg.role,
-          timestamp: msg.timestamp,
-          quotedText: msg.quotedText,
-        }));
-        
-        // Add the new user message to history for AI context
-        const userMessage: ConversationMessage = {
-          id: crypto.randomUUID(),
-          content: message.trim(),
-          role: 'user',
-          timestamp: new Date(),
-        };
-        const updatedHistory = [...conversationHistory, userMessage];
-        
-        // Start streaming state
-        startStreaming(nodeId);
-        
-        // Get AI service and stream response
-        const aiService = getAIService();
-        let fullResponse = '';
-
-        for await (const chunk of aiService.streamResponse(updatedHistory)) {
-          // Check if streaming was aborted
-          if (abortControllerRef.current?.signal.aborted) {
-            break;
+        const updatedHistory = buildRequestHistory(message, nodeId, sessionId);
+
+        // Wait in the queue until a concurrency slot is free
+        queueStreaming(nodeId, sessionId);
+        return await getStreamScheduler().run(async () => {
+          startStreaming(nodeId);
+
+          // Get AI service and fit the history into the model's context budget
+          const { aiService, model, generation, systemPrompt, persona, tools, responseSchema } = getAIService(nodeId, sessionId);
+          const { signal } = abortController;
+          const context = await prepareContext(aiService, updatedHistory, model, { systemInstruction: systemPrompt, signal });
+          recordGenerationMetadata(nodeId, sessionId, { providerId: aiService.id, model, generation, persona, compaction: context.compaction, parentRevisionId: getParentRevisionId(nodeId, sessionId) });
+
+          const systemInstruction = withCompactionSummary(systemPrompt, context.summary);
+          const timing: { startedAt: number; firstTokenAt?: number } = { startedAt: performance.now() };
+          let usage: TokenUsage | undefined;
+          let requestMessages = context.messages;
+          const toolSteps: ToolStep[] = [];
+          let reachedToolLimit = false;
+
+          // Each round streams text; when the model asks for tools, run them,
+          // store the round on the node and send the results back
+          for (let step = 0; ; step++) {
+            let stepUsage: TokenUsage | undefined;
+            let toolCalls: ToolCall[] = [];
+            fullResponse = '';
+
+            // Stream response, retrying transient failures
+            const stream = withStreamRetry(
+              () => aiService.streamResponse(requestMessages, {
+                model,
+                generation,
+                systemInstruction,
+                signal,
+                responseSchema,
+                tools: tools.length > 0 ? tools : undefined,
+                onUsage: reported => { stepUsage = reported; },
+                onToolCalls: calls => { toolCalls = calls; },
+              }),
+              {
+                signal,
+                onRetry: (attempt, retryError, delayMs) => {
+                  console.warn(`Retrying AI request (attempt ${attempt + 1}) in ${delayMs}ms:`, retryError.detail || retryError.message);
+                },
+              }
+            );
+
+            for await (const chunk of stream) {
+              // Check if streaming was aborted
+              if (abortController.signal.aborted) {
+                break;
+              }
+
+              timing.firstTokenAt ??= performance.now();
+              fullResponse += chunk;
+              updateStreamingText(nodeId, fullResponse);
+            }
+
+            // Rounds are billed separately; add them up
+            if (stepUsage) {
+              usage = {
+                promptTokens: (usage?.promptTokens ?? 0) + stepUsage.promptTokens,
+                outputTokens: (usage?.outputTokens ?? 0) + stepUsage.outputTokens,
+              };
+            }
+
+            if (toolCalls.length === 0 || abortController.signal.aborted) break;
+
+            // A tool call counts as the model's first output
+            timing.firstTokenAt ??= performance.now();
+
+            const results = step < AI_CONFIG.tools.maxSteps
+              ? await Promise.all(toolCalls.map(call => executeToolCall(call, {
+                nodes: getSession(sessionId)?.canvas.nodes ?? [],
+                nodeId,
+                signal,
+              })))
+              : toolCalls.map(call => ({
+                callId: call.id,
+                name: call.name,
+                content: `Not run: the limit of ${AI_CONFIG.tools.maxSteps} tool rounds was reached.`,
+                isError: true,
+              }));
+
+            toolSteps.push({ text: fullResponse, calls: toolCalls, results });
+            const node = getNode(nodeId, sessionId);
+            if (node) {
+              updateNode(nodeId, { currentExchange: { ...node.currentExchange, toolSteps: [...toolSteps] } }, { recordHistory: false, sessionId });
+            }
+
+            if (step >= AI_CONFIG.tools.maxSteps) {
+              reachedToolLimit = true;
+              break;
+            }
+
+            updateStreamingText(nodeId, '');
+            requestMessages = [
+              ...requestMessages,
+              { id: crypto.randomUUID(), role: 'assistant', content: fullResponse, timestamp: new Date(), toolCalls },
+              { id: crypto.randomUUID(), role: 'user', content: '', timestamp: new Date(), toolResults: results },
+            ];
           }
 
-          fullResponse += chunk;
-          updateStreamingText(fullResponse);
-        }
+          recordUsage(nodeId, sessionId, { messages: requestMessages, systemInstruction, response: fullResponse }, timing, usage);
 
-        finishStreaming();
-        return fullResponse;
+          // The model never got to answer; fail the node so it can be retried
+          if (reachedToolLimit) {
+            throw new AIServiceError('unknown', {
+              message: `Stopped after ${AI_CONFIG.tools.maxSteps} tool rounds without an answer.`,
+            });
+          }
+
+          // Malformed structured output fails the node instead of being stored as the answer
+          if (responseSchema && !abortController.signal.aborted) {
+            validateStructuredResponse(fullResponse, responseSchema);
+          }
+
+          finishStreaming(nodeId, abortController.signal.aborted ? 'stopped' : 'complete');
+          return fullResponse;
+        }, abortController.signal);
 
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to stream message';
-        setError(errorMessage);
-        finishStreaming(); // Clean up streaming state
-        throw err;
+        // A user-initiated stop is not a failure: keep whatever arrived
+        if (abortController.signal.aborted) {
+          finishStreaming(nodeId, 'stopped');
+          return fullResponse;
+        }
+
+        const aiError = classifyAIError(err);
+        setError(aiError.message);
+        // Partial or malformed text is not an answer; the caller records the error on the node
+        clearStreaming(nodeId);
+        throw aiError;
       } finally {
-        setIsLoading(false);
-        abortControllerRef.current = null;
+        setPendingStreams(count => count - 1);
+        if (abortControllersRef.current.get(nodeId) === abortController) {
+          abortControllersRef.current.delete(nodeId);
+        }
       }
     },
     [
-      getNodeConversation,
+      buildRequestHistory,
+      queueStreaming,
       startStreaming,
       updateStreamingText,
       finishStreaming,
+      clearStreaming,
       getAIService,
+      getParentRevisionId,
+      getActiveSession,
+      getSession,
+      getNode,
+      updateNode,
+      recordGenerationMetadata,
+      recordUsage,
     ]
   );
 
   /**
-   * Abort any ongoing streaming operation
+   * Abort one node's generation (queued or streaming), or every one when no node is given
    */
-  const abortStreaming = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+  const abortStreaming = useCallback((nodeId?: string) => {
+    if (nodeId) {
+      abortControllersRef.current.get(nodeId)?.abort();
+      return;
     }
+
+    abortControllersRef.current.forEach(controller => controller.abort());
   }, []);
 
   // Cleanup on unmount
@@ -202,10 +418,11 @@ export const useAIChat = (): UseAIChat => {
   }, [abortStreaming]);
 
   return {
-    isLoading,
+    isLoading: isLoading || pendingStreams > 0,
     error,
     sendMessage,
     streamMessage,
+    abortStreaming,
     clearError,
   };
 };
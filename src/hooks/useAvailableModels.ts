@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { getAIProvider, getAvailableProviders, getConfiguredModels } from '../services/providerRegistry';
+import { useCredentialsStore } from '../store/credentialsStore';
+import type { AIModelInfo } from '../types';
+
+/**
+ * Models discovered from the providers, shared by every picker
+ */
+let discoveredModels: Promise<AIModelInfo[]> | null = null;
+
+// Credentials the discovered models were listed with
+let discoveredWith: string | null = null;
+
+/**
+ * Ask every reachable provider for its models. Providers that cannot be
+ * created (e.g. missing credentials) or reached keep their configured list.
+ */
+const discoverModels = (credentialsSignature: string): Promise<AIModelInfo[]> => {
+  if (!discoveredModels || discoveredWith !== credentialsSignature) {
+    discoveredWith = credentialsSignature;
+    discoveredModels = Promise.all(
+      getAvailableProviders().map(async ({ id }) => {
+        try {
+          return await getAIProvider(id).listModels();
+        } catch {
+          return getConfiguredModels().filter(model => model.providerId === id);
+        }
+      })
+    ).then(lists => lists.flat());
+  }
+  return discoveredModels;
+};
+
+/**
+ * Custom hook listing the models that can be picked for a branch
+ */
+export const useAvailableModels = (): AIModelInfo[] => {
+  const [models, setModels] = useState<AIModelInfo[]>(getConfiguredModels);
+
+  // Switching, adding or unlocking keys can change which models are reachable
+  const credentialsSignature = useCredentialsStore(state =>
+    `${state.vaultKey ? 'unlocked' : 'locked'}:${Object.entries(state.activeCredentialIds).sort().join(',')}`
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    discoverModels(credentialsSignature).then(list => {
+      if (!cancelled && list.length > 0) {
+        setModels(list);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [credentialsSignature]);
+
+  return models;
+};
+
+/**
+ * Forget discovered models so the next picker asks the providers again
+ */
+export const resetDiscoveredModels = (): void => {
+  discoveredModels = null;
+};
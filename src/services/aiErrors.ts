@@ -0,0 +1,80 @@
+import {
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIRequestInputError,
+  GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import type { AIErrorKind } from '../types';
+
+const ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  auth: 'The provider rejected the credentials. Check your API key or server configuration.',
+  rate_limit: 'The provider is rate limiting requests or the quota is exhausted.',
+  safety: 'The response was blocked by the provider\'s safety filters.',
+  network: 'The provider could not be reached.',
+  invalid_request: 'The provider rejected the request as invalid.',
+  invalid_output: 'The response did not match the requested JSON schema.',
+  unknown: 'The AI request failed.',
+};
+
+const RETRYABLE_KINDS: ReadonlySet<AIErrorKind> = new Set(['rate_limit', 'network']);
+
+/**
+ * Error raised by the provider layer with a classified failure kind
+ */
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly detail?: string;
+
+  constructor(kind: AIErrorKind, options: { status?: number; detail?: string; message?: string } = {}) {
+    super(options.message || ERROR_MESSAGES[kind]);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.retryable = RETRYABLE_KINDS.has(kind);
+  }
+}
+
+/**
+ * Map an HTTP status code onto an error kind
+ */
+export const classifyHttpStatus = (status: number, detail = ''): AIErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 408 || status >= 500) return 'network';
+  if (status === 400 && /api[_ ]key/i.test(detail)) return 'auth';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+};
+
+/**
+ * Classify any error thrown while talking to a provider
+ */
+export const classifyAIError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) {
+    return error;
+  }
+
+  const detail = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    return new AIServiceError(classifyHttpStatus(error.status ?? 0, detail), { status: error.status, detail });
+  }
+
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    const kind = /block|safety|recitation/i.test(detail) ? 'safety' : 'invalid_request';
+    return new AIServiceError(kind, { detail });
+  }
+
+  if (error instanceof GoogleGenerativeAIRequestInputError) {
+    return new AIServiceError('invalid_request', { detail });
+  }
+
+  // fetch() rejects with a TypeError when the server cannot be reached
+  if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED/i.test(detail)) {
+    return new AIServiceError('network', { detail });
+  }
+
+  return new AIServiceError('unknown', { detail });
+};
@@ -0,0 +1,112 @@
+import type { Attachment, AttachmentKind } from '../types';
+import { AI_CONFIG } from '../config/app';
+import { generateId } from '../utils';
+
+const { maxFileBytes, maxFilesPerPrompt, imageMimeTypes, textExtensions } = AI_CONFIG.attachments;
+
+const IMAGE_MIME_TYPES: ReadonlySet<string> = new Set(imageMimeTypes);
+const TEXT_EXTENSIONS: ReadonlySet<string> = new Set(textExtensions);
+
+// Value for the file picker's accept attribute
+export const ATTACHMENT_ACCEPT = [
+  ...imageMimeTypes,
+  'application/pdf',
+  'text/*',
+  ...textExtensions.map(extension => `.${extension}`),
+].join(',');
+
+const getExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Work out how a file is sent to the model, or undefined if it is not supported
+ */
+export const getAttachmentKind = (file: Pick<File, 'name' | 'type'>): AttachmentKind | undefined => {
+  if (IMAGE_MIME_TYPES.has(file.type)) return 'image';
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.has(getExtension(file.name))) return 'text';
+  return undefined;
+};
+
+/**
+ * Format a byte count, e.g. "1.2 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Data URL for showing or sending a binary attachment
+ */
+export const toDataUrl = (attachment: Attachment): string => {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+};
+
+const readFile = (file: File, as: 'dataUrl' | 'text'): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+
+    if (as === 'dataUrl') {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+};
+
+/**
+ * Read a dropped, pasted or picked file into an attachment.
+ * Throws with a user-facing message if the file cannot be attached.
+ */
+export const readAttachment = async (file: File): Promise<Attachment> => {
+  const kind = getAttachmentKind(file);
+  if (!kind) {
+    throw new Error(`${file.name || 'This file'} is not an image, PDF or text file.`);
+  }
+  if (file.size > maxFileBytes) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(maxFileBytes)}.`);
+  }
+
+  // Pasted images arrive without a useful name
+  const name = file.name || `pasted-${kind}.${file.type.split('/')[1] ?? 'bin'}`;
+  const mimeType = file.type || 'text/plain';
+
+  if (kind === 'text') {
+    return { id: generateId(), name, mimeType, size: file.size, kind, data: await readFile(file, 'text') };
+  }
+
+  // Keep only the base64 payload; the MIME type is stored separately
+  const dataUrl = await readFile(file, 'dataUrl');
+  return { id: generateId(), name, mimeType, size: file.size, kind, data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
+
+/**
+ * Read several files, collecting a message for each one that was refused
+ */
+export const readAttachments = async (
+  files: File[],
+  existingCount = 0
+): Promise<{ attachments: Attachment[]; errors: string[] }> => {
+  const room = Math.max(0, maxFilesPerPrompt - existingCount);
+  const errors = files.length > room
+    ? [`Only ${maxFilesPerPrompt} files can be attached to one prompt.`]
+    : [];
+
+  const results = await Promise.allSettled(files.slice(0, room).map(readAttachment));
+  const attachments: Attachment[] = [];
+  results.forEach(result => {
+    if (result.status === 'fulfilled') {
+      attachments.push(result.value);
+    } else {
+      errors.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+    }
+  });
+
+  return { attachments, errors };
+};
@@ -0,0 +1,160 @@
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/iy;
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'symbol'; value: string };
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    if (expression.slice(TOKEN_PATTERN.lastIndex).trim() === '') break;
+
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character "${expression.slice(start).trim()[0]}"`);
+    }
+
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'symbol', value: match[3] === '**' ? '^' : match[3] });
+  }
+
+  return tokens;
+};
+
+/**
+ * Evaluate an arithmetic expression without eval: + - * / % ^, parentheses,
+ * functions such as sqrt() and log(), and the constants pi and e
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[position++].value;
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = tokens[position++].value;
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ('+' | '-') unary | power
+  const parseUnary = (): number => {
+    if (isSymbol('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isSymbol('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?  — right-associative
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isSymbol('^')) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  // primary := number | constant | function '(' args ')' | '(' expression ')'
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      position++;
+      return token.value;
+    }
+
+    if (token.type === 'name') {
+      position++;
+      if (Object.hasOwn(CONSTANTS, token.value) && !isSymbol('(')) {
+        return CONSTANTS[token.value];
+      }
+
+      // Own names only, so e.g. "constructor" is not found on Object.prototype
+      const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!fn) throw new Error(`Unknown function or constant "${token.value}"`);
+
+      expect('(');
+      const args = [parseExpression()];
+      while (isSymbol(',')) {
+        position++;
+        args.push(parseExpression());
+      }
+      expect(')');
+      return fn(...args);
+    }
+
+    if (token.value === '(') {
+      position++;
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  if (tokens.length === 0) throw new Error('Expression is empty');
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${String(tokens[position].value)}"`);
+  }
+  return result;
+};
@@ -0,0 +1,224 @@
+import type { AIProvider, AIProviderId, Attachment, ContextCompaction, ConversationMessage } from '../types';
+import { AI_CONFIG } from '../config/app';
+
+// Rough heuristic that holds well enough for English text across tokenizers
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_INSTRUCTION =
+  'You compress conversation transcripts. Summarize the transcript you are given in a few short paragraphs, ' +
+  'keeping facts, decisions, names, numbers and open questions. Do not add commentary.';
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Estimate the number of tokens an attached file occupies in a request
+ */
+export const estimateAttachmentTokens = (attachment: Attachment): number => {
+  const { imageTokens, pdfTokensPerPage, pdfBytesPerPage } = AI_CONFIG.attachments;
+  switch (attachment.kind) {
+    case 'image':
+      return imageTokens;
+    case 'pdf':
+      return Math.max(1, Math.ceil(attachment.size / pdfBytesPerPage)) * pdfTokensPerPage;
+    case 'text':
+      return estimateTokens(attachment.data);
+  }
+};
+
+/**
+ * Estimate the number of tokens a message occupies in a request
+ */
+export const estimateMessageTokens = (message: ConversationMessage): number => {
+  const quoteTokens = message.quotedText ? estimateTokens(message.quotedText) : 0;
+  const attachmentTokens = (message.attachments ?? []).reduce((total, attachment) => total + estimateAttachmentTokens(attachment), 0);
+  const toolTokens = (message.toolCalls ?? []).reduce((total, call) => total + estimateTokens(call.name + JSON.stringify(call.arguments)), 0)
+    + (message.toolResults ?? []).reduce((total, result) => total + estimateTokens(result.content), 0);
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + quoteTokens + attachmentTokens + toolTokens;
+};
+
+/**
+ * Look up the context window of a model, falling back to the provider default
+ */
+export const getContextWindow = (providerId: AIProviderId, model: string): number => {
+  const provider = AI_CONFIG.providers[providerId];
+  const models: ReadonlyArray<{ id: string; contextWindow: number }> = provider.models;
+  return models.find(entry => entry.id === model)?.contextWindow ?? provider.defaultContextWindow;
+};
+
+/**
+ * Number of prompt tokens a request may use before history gets compacted
+ */
+export const getInputBudget = (providerId: AIProviderId, model: string): number => {
+  const available = getContextWindow(providerId, model) - AI_CONFIG.context.reservedOutputTokens;
+  return Math.max(0, Math.floor(available * AI_CONFIG.context.compactionThreshold));
+};
+
+export interface CompactionPlan {
+  kept: ConversationMessage[];
+  omitted: ConversationMessage[];
+  keptTokens: number;
+  omittedTokens: number;
+}
+
+/**
+ * Split history into the most recent turns that fit the budget and the older
+ * turns that have to go. The final message (the new prompt) is always kept,
+ * and the kept history always starts on a user's own prompt.
+ */
+export const planCompaction = (messages: ConversationMessage[], budgetTokens: number): CompactionPlan => {
+  const tokenCounts = messages.map(estimateMessageTokens);
+  let keptTokens = 0;
+  let firstKept = messages.length;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const isLatest = index === messages.length - 1;
+    if (!isLatest && keptTokens + tokenCounts[index] > budgetTokens) break;
+
+    keptTokens += tokenCounts[index];
+    firstKept = index;
+  }
+
+  // Never open the kept history with an orphaned assistant turn, or with tool
+  // results whose calls were cut off; providers reject both
+  const isOrphaned = (message: ConversationMessage) => message.role !== 'user' || !!message.toolResults?.length;
+  while (firstKept < messages.length - 1 && isOrphaned(messages[firstKept])) {
+    keptTokens -= tokenCounts[firstKept];
+    firstKept++;
+  }
+
+  const omittedTokens = tokenCounts.slice(0, firstKept).reduce((total, count) => total + count, 0);
+
+  return {
+    kept: messages.slice(firstKept),
+    omitted: messages.slice(0, firstKept),
+    keptTokens,
+    omittedTokens,
+  };
+};
+
+/**
+ * Summaries already produced for a run of omitted turns, keyed by their content
+ */
+const summaryCache = new Map<string, string>();
+
+/**
+ * Ask the provider for a summary of turns that no longer fit the context window
+ */
+const summarizeMessages = async (
+  provider: AIProvider,
+  messages: ConversationMessage[],
+  model: string,
+  budgetTokens: number,
+  signal?: AbortSignal
+): Promise<string> => {
+  let transcript = messages
+    .map(msg => {
+      // Files cannot be summarized from a text transcript; keep a note that they were there
+      const files = msg.attachments?.length ? ` [attached: ${msg.attachments.map(file => file.name).join(', ')}]` : '';
+      return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}${files}`;
+    })
+    .join('\n\n');
+
+  // Keep the summarization request itself within budget, dropping the oldest text first
+  const maxChars = budgetTokens * CHARS_PER_TOKEN;
+  if (transcript.length > maxChars) {
+    transcript = transcript.slice(transcript.length - maxChars);
+  }
+
+  const cached = summaryCache.get(transcript);
+  if (cached) return cached;
+
+  const summary = await provider.generateResponse(
+    [{ id: crypto.randomUUID(), role: 'user', content: transcript, timestamp: new Date() }],
+    { model, systemInstruction: SUMMARY_INSTRUCTION, signal }
+  );
+
+  summaryCache.set(transcript, summary);
+  return summary;
+};
+
+export interface PreparedContext {
+  messages: ConversationMessage[];
+  summary?: string;
+  compaction?: ContextCompaction;
+}
+
+/**
+ * Fit a request's history into the model's context budget, trimming or
+ * summarizing the oldest ancestor turns when the limit is near
+ */
+export const prepareContext = async (
+  provider: AIProvider,
+  messages: ConversationMessage[],
+  model: string,
+  options: { systemInstruction?: string; signal?: AbortSignal } = {}
+): Promise<PreparedContext> => {
+  const inputBudget = getInputBudget(provider.id, model);
+  const systemTokens = estimateTokens(options.systemInstruction || AI_CONFIG.systemInstruction);
+  const budgetTokens = Math.max(0, inputBudget - systemTokens);
+  const totalTokens = messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
+
+  if (totalTokens <= budgetTokens) {
+    return { messages };
+  }
+
+  const { summarizeCompactedTurns, summaryTokens } = AI_CONFIG.context;
+
+  if (summarizeCompactedTurns) {
+    const plan = planCompaction(messages, Math.max(0, budgetTokens - summaryTokens));
+
+    // Nothing older than the prompt itself: there is nothing left to compact
+    if (plan.omitted.length === 0) {
+      return { messages };
+    }
+
+    try {
+      const summary = await summarizeMessages(provider, plan.omitted, model, budgetTokens, options.signal);
+      return {
+        messages: plan.kept,
+        summary,
+        compaction: {
+          strategy: 'summarized',
+          omittedMessages: plan.omitted.length,
+          omittedTokens: plan.omittedTokens,
+          estimatedTokens: plan.keptTokens + estimateTokens(summary) + systemTokens,
+          budgetTokens: inputBudget,
+          summary,
+        },
+      };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn('Failed to summarize compacted turns, trimming instead:', error);
+    }
+  }
+
+  const plan = planCompaction(messages, budgetTokens);
+  if (plan.omitted.length === 0) {
+    return { messages };
+  }
+
+  return {
+    messages: plan.kept,
+    compaction: {
+      strategy: 'trimmed',
+      omittedMessages: plan.omitted.length,
+      omittedTokens: plan.omittedTokens,
+      estimatedTokens: plan.keptTokens + systemTokens,
+      budgetTokens: inputBudget,
+    },
+  };
+};
+
+/**
+ * Append a summary of compacted turns to a system instruction
+ */
+export const withCompactionSummary = (systemInstruction: string, summary?: string): string => {
+  if (!summary) return systemInstruction;
+  return `${systemInstruction}\n\nSummary of earlier turns in this branch that are no longer shown:\n${summary}`;
+};
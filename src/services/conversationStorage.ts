@@ -0,0 +1,470 @@
+import { createJSONStorage, type PersistStorage, type StorageValue } from 'zustand/middleware';
+import type {
+  ConversationCanvas,
+  ConversationNode,
+  ConversationSession,
+  StorageIssue,
+  TextSelection,
+} from '../types';
+import { STORAGE_CONFIG } from '../config/app';
+import { backupPersistedState, reviveDates } from './persistMigrations';
+import { buildSessionPreview } from './sessionPreview';
+
+// The part of the conversation store that is saved
+export interface PersistedConversationState {
+  sessions: ConversationSession[];
+  activeSessionId: string | null;
+  activeNodeId: string | null;
+  textSelection: TextSelection | null;
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+
+export interface ConversationStorage extends PersistStorage<PersistedConversationState> {
+  /** Read the nodes of a session that was not loaded at startup, or null if it already is */
+  loadSession: (sessionId: string) => Promise<ConversationNode[] | null>;
+  /** Copy the saved data before it is migrated or replaced; resolves to the backup key */
+  backup: (label: number | 'unreadable') => Promise<string | undefined>;
+  readBackup: (backupKey: string) => Promise<string | undefined>;
+  clearBackups: () => Promise<void>;
+  /** Approximate saved size of each session in bytes */
+  estimateSessionSizes: (state: PersistedConversationState) => Promise<Record<string, number>>;
+  estimateUsage: () => Promise<StorageUsage | undefined>;
+  /**
+   * Start saving. Nothing is written until the saved data has been loaded into
+   * the store, so a failed load cannot be overwritten by the empty state.
+   */
+  allowWrites: () => void;
+}
+
+interface StorageOptions {
+  name: string; // Persist name; also the prefix of backup keys
+  version: number; // Current persist version; data saved by other versions is read in full for migration
+  onIssue: (issue: StorageIssue) => void;
+}
+
+interface MetaRecord {
+  version: number;
+  sessionIds: string[]; // Session order
+  activeSessionId: string | null;
+  activeNodeId: string | null;
+  textSelection: TextSelection | null;
+}
+
+type SessionRecord = Omit<ConversationSession, 'canvas'> & {
+  canvas: Omit<ConversationCanvas, 'nodes'> & { nodeIds: string[] };
+};
+
+type NodeRecord = ConversationNode & { sessionId: string };
+
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const SESSION_STORE = 'sessions';
+const NODE_STORE = 'nodes';
+const BACKUP_STORE = 'backups';
+
+// Stands in for the nodes of sessions that have not been read yet. Writes skip
+// any session whose nodes are still this exact array.
+const UNLOADED_NODES: ConversationNode[] = [];
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const estimateBytes = (value: unknown): number => JSON.stringify(value)?.length ?? 0;
+
+const describeWriteError = (error: unknown): StorageIssue => {
+  return isQuotaError(error)
+    ? { kind: 'quota', message: 'Browser storage is full, so recent changes were not saved. Remove conversations you no longer need.' }
+    : { kind: 'write', message: `Recent changes were not saved: ${error instanceof Error ? error.message : String(error)}` };
+};
+
+const clearLocalBackups = (name: string) => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(`${name}-backup-`))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('Saving was aborted'));
+    transaction.onerror = () => reject(transaction.error ?? new Error('Saving failed'));
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(STORAGE_CONFIG.databaseName, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(META_STORE);
+      db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      db.createObjectStore(NODE_STORE, { keyPath: ['sessionId', 'id'] }).createIndex('sessionId', 'sessionId');
+      db.createObjectStore(BACKUP_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Saved conversations are open in an older tab; close it and reload.'));
+  });
+};
+
+// A session that was never read keeps the node order and preview it was saved with
+const toSessionRecord = (session: ConversationSession, unloadedNodeIds?: string[]): SessionRecord => {
+  const { nodes, ...canvas } = session.canvas;
+  return unloadedNodeIds
+    ? { ...session, canvas: { ...canvas, nodeIds: unloadedNodeIds } }
+    : { ...session, canvas: { ...canvas, nodeIds: nodes.map(node => node.id) }, preview: buildSessionPreview(nodes) };
+};
+
+const sortByIds = (nodes: ConversationNode[], nodeIds: string[]): ConversationNode[] => {
+  const order = new Map(nodeIds.map((id, index) => [id, index]));
+  return [...nodes].sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+};
+
+const fromSessionRecord = (record: SessionRecord, nodes: ConversationNode[]): ConversationSession => {
+  const { nodeIds, ...canvas } = record.canvas;
+  return { ...record, canvas: { ...canvas, nodes: nodes === UNLOADED_NODES ? nodes : sortByIds(nodes, nodeIds) } };
+};
+
+const stripSessionId = (record: NodeRecord): ConversationNode => {
+  const node: ConversationNode & { sessionId?: string } = { ...record };
+  delete node.sessionId;
+  return node;
+};
+
+const estimateUsage = async (): Promise<StorageUsage | undefined> => {
+  if (!navigator.storage?.estimate) return undefined;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : undefined;
+};
+
+/**
+ * Store sessions and nodes as separate IndexedDB records. Writes are debounced
+ * and only touch records whose objects changed since the last write; sessions
+ * other than the active one are read on demand.
+ */
+const createIndexedDBStorage = ({ name: storageName, version, onIssue }: StorageOptions): ConversationStorage => {
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => (database ??= openDatabase());
+
+  // What the database holds, by object identity, so unchanged records are skipped
+  const writtenSessions = new Map<string, ConversationSession>();
+  const writtenNodes = new Map<string, Map<string, ConversationNode>>();
+  const unloadedNodeIds = new Map<string, string[]>(); // Saved node order of sessions not read yet
+
+  let writesAllowed = false;
+  let legacyName: string | null = null; // Data read from localStorage, removed once it is saved here
+  let loadedValue: StorageValue<PersistedConversationState> | null = null;
+  let pending: { name: string; value: StorageValue<PersistedConversationState> } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let quotaWarned = false;
+
+  const rememberNodes = (sessionId: string, nodes: ConversationNode[]) => {
+    writtenNodes.set(sessionId, new Map(nodes.map(node => [node.id, node])));
+  };
+
+  const readSessionNodes = async (db: IDBDatabase, sessionId: string): Promise<ConversationNode[]> => {
+    const index = db.transaction(NODE_STORE).objectStore(NODE_STORE).index('sessionId');
+    const records = await requestToPromise(index.getAll(IDBKeyRange.only(sessionId)) as IDBRequest<NodeRecord[]>);
+    return records.map(stripSessionId);
+  };
+
+  const writeState = async (name: string, { state, version: savedVersion }: StorageValue<PersistedConversationState>) => {
+    const db = await getDatabase();
+    const transaction = db.transaction([META_STORE, SESSION_STORE, NODE_STORE], 'readwrite');
+    const sessionStore = transaction.objectStore(SESSION_STORE);
+    const nodeStore = transaction.objectStore(NODE_STORE);
+
+    const meta: MetaRecord = {
+      version: savedVersion ?? version,
+      sessionIds: state.sessions.map(session => session.id),
+      activeSessionId: state.activeSessionId,
+      activeNodeId: state.activeNodeId,
+      textSelection: state.textSelection,
+    };
+    transaction.objectStore(META_STORE).put(meta, name);
+
+    const nextSessions = new Map<string, ConversationSession>();
+    const nextNodes = new Map<string, Map<string, ConversationNode>>();
+
+    state.sessions.forEach(session => {
+      nextSessions.set(session.id, session);
+      const isUnloaded = session.canvas.nodes === UNLOADED_NODES;
+      if (writtenSessions.get(session.id) !== session) {
+        sessionStore.put(toSessionRecord(session, isUnloaded ? unloadedNodeIds.get(session.id) ?? [] : undefined));
+      }
+
+      // Nodes of a session that was never read are left as they are
+      const previous = writtenNodes.get(session.id);
+      if (isUnloaded) {
+        if (previous) nextNodes.set(session.id, previous);
+        return;
+      }
+
+      const current = new Map<string, ConversationNode>();
+      session.canvas.nodes.forEach(node => {
+        current.set(node.id, node);
+        if (previous?.get(node.id) !== node) nodeStore.put({ ...node, sessionId: session.id });
+      });
+      previous?.forEach((_, nodeId) => {
+        if (!current.has(nodeId)) nodeStore.delete([session.id, nodeId]);
+      });
+      nextNodes.set(session.id, current);
+    });
+
+    // Sessions that were deleted take their nodes with them
+    writtenSessions.forEach((_, sessionId) => {
+      if (nextSessions.has(sessionId)) return;
+      sessionStore.delete(sessionId);
+      nodeStore.delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+    });
+
+    await transactionDone(transaction);
+
+    writtenSessions.clear();
+    nextSessions.forEach((session, id) => writtenSessions.set(id, session));
+    writtenNodes.clear();
+    nextNodes.forEach((nodes, id) => writtenNodes.set(id, nodes));
+  };
+
+  const checkQuota = async () => {
+    if (quotaWarned) return;
+    const estimate = await estimateUsage().catch(() => undefined);
+    if (estimate && estimate.usage / estimate.quota >= STORAGE_CONFIG.quotaWarningRatio) {
+      quotaWarned = true;
+      onIssue({
+        kind: 'quota',
+        message: `Browser storage is ${Math.round((estimate.usage / estimate.quota) * 100)}% full. Remove conversations you no longer need before saving fails.`,
+      });
+    }
+  };
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!pending) return writing;
+
+    const { name, value } = pending;
+    pending = null;
+    writing = writing
+      .then(() => writeState(name, value))
+      .then(() => {
+        if (legacyName) {
+          localStorage.removeItem(legacyName);
+          legacyName = null;
+        }
+        return checkQuota();
+      })
+      .catch(error => {
+        console.error('Failed to save conversations:', error);
+        onIssue(describeWriteError(error));
+      });
+    return writing;
+  };
+
+  // Last chance to save when the tab is hidden or closed
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => void flush());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') void flush();
+    });
+  }
+
+  return {
+    getItem: async (name) => {
+      const db = await getDatabase();
+      const meta = await requestToPromise(
+        db.transaction(META_STORE).objectStore(META_STORE).get(name) as IDBRequest<MetaRecord | undefined>
+      );
+
+      // First run after the switch from localStorage: read the old data and move it over on the next write
+      if (!meta) {
+        const raw = localStorage.getItem(name);
+        if (!raw) return null;
+        legacyName = name;
+        loadedValue = JSON.parse(raw, reviveDates) as StorageValue<PersistedConversationState>;
+        return loadedValue;
+      }
+
+      const records = await requestToPromise(
+        db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll() as IDBRequest<SessionRecord[]>
+      );
+      const order = new Map(meta.sessionIds.map((id, index) => [id, index]));
+      records.sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+
+      // Migrations need every node, so data from another version is read in full
+      const readAll = meta.version !== version;
+      const sessions = await Promise.all(records.map(async record => {
+        if (!readAll && record.id !== meta.activeSessionId) {
+          unloadedNodeIds.set(record.id, record.canvas.nodeIds);
+          return fromSessionRecord(record, UNLOADED_NODES);
+        }
+        const nodes = await readSessionNodes(db, record.id);
+        rememberNodes(record.id, nodes);
+        return fromSessionRecord(record, nodes);
+      }));
+      sessions.forEach(session => writtenSessions.set(session.id, session));
+
+      loadedValue = {
+        state: {
+          sessions,
+          activeSessionId: meta.activeSessionId,
+          activeNodeId: meta.activeNodeId,
+          textSelection: meta.textSelection,
+        },
+        version: meta.version,
+      };
+      return loadedValue;
+    },
+
+    setItem: (name, value) => {
+      // Anything set before the saved data is loaded would overwrite it
+      if (!writesAllowed) return;
+
+      pending = { name, value };
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => void flush(), STORAGE_CONFIG.writeDebounceMs);
+    },
+
+    removeItem: async (name) => {
+      pending = null;
+      await flush();
+      const db = await getDatabase();
+      const transaction = db.transaction([META_STORE, SESSION_STORE, NODE_STORE], 'readwrite');
+      transaction.objectStore(META_STORE).delete(name);
+      transaction.objectStore(SESSION_STORE).clear();
+      transaction.objectStore(NODE_STORE).clear();
+      await transactionDone(transaction);
+      writtenSessions.clear();
+      writtenNodes.clear();
+      unloadedNodeIds.clear();
+    },
+
+    loadSession: async (sessionId) => {
+      if (writtenNodes.has(sessionId) || !writtenSessions.has(sessionId)) return null;
+
+      const nodes = sortByIds(await readSessionNodes(await getDatabase(), sessionId), unloadedNodeIds.get(sessionId) ?? []);
+      rememberNodes(sessionId, nodes);
+      unloadedNodeIds.delete(sessionId);
+      return nodes;
+    },
+
+    backup: async (label) => {
+      // Data still in localStorage (or unreadable here) is copied there
+      if (legacyName || !loadedValue) return backupPersistedState(storageName, label);
+
+      const backupKey = `${storageName}-backup-${typeof label === 'number' ? `v${label}` : label}`;
+      try {
+        const db = await getDatabase();
+        const transaction = db.transaction(BACKUP_STORE, 'readwrite');
+        transaction.objectStore(BACKUP_STORE).put(loadedValue, backupKey);
+        await transactionDone(transaction);
+        return backupKey;
+      } catch (error) {
+        console.error('Could not back up saved conversations before migrating:', error);
+        return undefined;
+      }
+    },
+
+    readBackup: async (backupKey) => {
+      const db = await getDatabase();
+      const value = await requestToPromise(db.transaction(BACKUP_STORE).objectStore(BACKUP_STORE).get(backupKey));
+      return value !== undefined ? JSON.stringify(value) : localStorage.getItem(backupKey) ?? undefined;
+    },
+
+    clearBackups: async () => {
+      const db = await getDatabase();
+      const transaction = db.transaction(BACKUP_STORE, 'readwrite');
+      transaction.objectStore(BACKUP_STORE).clear();
+      await transactionDone(transaction);
+      clearLocalBackups(storageName);
+    },
+
+    estimateSessionSizes: async (state) => {
+      const sizes: Record<string, number> = {};
+      state.sessions.forEach(session => {
+        sizes[session.id] = estimateBytes(toSessionRecord(session, unloadedNodeIds.get(session.id)));
+      });
+
+      // Count nodes from the database so unloaded sessions are included
+      const db = await getDatabase();
+      const cursorRequest = db.transaction(NODE_STORE).objectStore(NODE_STORE).openCursor();
+      await new Promise<void>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return resolve();
+          const record = cursor.value as NodeRecord;
+          sizes[record.sessionId] = (sizes[record.sessionId] ?? 0) + estimateBytes(record);
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+      return sizes;
+    },
+
+    estimateUsage,
+
+    allowWrites: () => {
+      writesAllowed = true;
+    },
+  };
+};
+
+/**
+ * Everything in one localStorage key, for browsers without IndexedDB
+ */
+const createLocalStorage = ({ name, onIssue }: StorageOptions): ConversationStorage => {
+  const storage = createJSONStorage<PersistedConversationState>(() => localStorage, { reviver: reviveDates })!;
+  let writesAllowed = false;
+
+  return {
+    ...storage,
+    setItem: (key, value) => {
+      if (!writesAllowed) return;
+      try {
+        storage.setItem(key, value);
+      } catch (error) {
+        console.error('Failed to save conversations:', error);
+        onIssue(describeWriteError(error));
+      }
+    },
+    loadSession: async () => null,
+    backup: async (label) => backupPersistedState(name, label),
+    readBackup: async (backupKey) => localStorage.getItem(backupKey) ?? undefined,
+    clearBackups: async () => clearLocalBackups(name),
+    estimateSessionSizes: async (state) => Object.fromEntries(
+      state.sessions.map(session => [session.id, estimateBytes(session)])
+    ),
+    estimateUsage,
+    allowWrites: () => {
+      writesAllowed = true;
+    },
+  };
+};
+
+/**
+ * Format a byte count, e.g. 1.2 MB
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Storage for the conversation store: IndexedDB where available, otherwise localStorage
+ */
+export const createConversationStorage = (options: StorageOptions): ConversationStorage => {
+  return typeof indexedDB !== 'undefined' ? createIndexedDBStorage(options) : createLocalStorage(options);
+};
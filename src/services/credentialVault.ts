@@ -0,0 +1,105 @@
+import type { EncryptedSecret } from '../types';
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Encrypted with the derived key to check a passphrase without storing it
+const VERIFIER_PLAINTEXT = 'lattice-credentials';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+/**
+ * Create a random salt for deriving the vault key
+ */
+export const generateSalt = (): string => {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+};
+
+/**
+ * Derive an AES-GCM key from the user's passphrase with PBKDF2
+ */
+export const deriveVaultKey = async (passphrase: string, salt: string): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypt a secret with a fresh IV
+ */
+export const encryptSecret = async (key: CryptoKey, plaintext: string): Promise<EncryptedSecret> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypt a secret. Throws if the key is wrong or the data was tampered with.
+ */
+export const decryptSecret = async (key: CryptoKey, secret: EncryptedSecret): Promise<string> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+    key,
+    fromBase64(secret.ciphertext)
+  );
+
+  return new TextDecoder().decode(plaintext);
+};
+
+/**
+ * Create the value stored to recognise the right passphrase later
+ */
+export const createVerifier = (key: CryptoKey): Promise<EncryptedSecret> => {
+  return encryptSecret(key, VERIFIER_PLAINTEXT);
+};
+
+/**
+ * Check a derived key against the stored verifier
+ */
+export const checkVerifier = async (key: CryptoKey, verifier: EncryptedSecret): Promise<boolean> => {
+  try {
+    return await decryptSecret(key, verifier) === VERIFIER_PLAINTEXT;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Show only the end of a key, e.g. "••••3xQ9"
+ */
+export const maskSecret = (secret: string): string => {
+  return `••••${secret.slice(-4)}`;
+};
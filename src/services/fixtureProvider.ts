@@ -0,0 +1,270 @@
+import type {
+  AIModelInfo,
+  Attachment,
+  AIProvider,
+  AIProviderId,
+  AIRequestOptions,
+  ConversationMessage,
+  GenerationParams,
+  JsonSchema,
+  TokenUsage,
+  ToolCall,
+} from '../types';
+import { AI_CONFIG } from '../config/app';
+import { AIServiceError } from './aiErrors';
+import { compactGenerationParams } from './generationParams';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * One recorded provider exchange, keyed by a hash of the request
+ */
+export interface AIFixture {
+  key: string;
+  providerId: AIProviderId;
+  model: string;
+  request: {
+    messages: Array<Pick<ConversationMessage, 'role' | 'content' | 'quotedText' | 'toolCalls' | 'toolResults'> & {
+      attachments?: Array<Pick<Attachment, 'name' | 'mimeType' | 'size'>>;
+    }>;
+    systemInstruction?: string;
+    generation?: GenerationParams;
+    tools?: string[];
+    responseSchema?: JsonSchema;
+  };
+  chunks: string[];
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[];
+  recordedAt: string;
+}
+
+export interface FixtureProviderConfig {
+  mode: FixtureMode;
+  providerId: AIProviderId;
+  defaultModel: string;
+  createProvider: () => AIProvider; // Only called when recording
+}
+
+// Fixture files checked into fixtures/ai; each holds one fixture or an array of them
+const bundledFixtureFiles = import.meta.glob<AIFixture | AIFixture[]>('/fixtures/ai/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+const fixtures = new Map<string, AIFixture>(
+  Object.values(bundledFixtureFiles)
+    .flat()
+    .map(fixture => [fixture.key, fixture])
+);
+
+// Exchanges recorded since the page loaded, waiting to be exported
+const recordedFixtures = new Map<string, AIFixture>();
+
+/**
+ * Read the fixture mode from the environment
+ */
+export const getFixtureMode = (): FixtureMode | undefined => {
+  const mode = import.meta.env.VITE_AI_FIXTURES;
+  return mode === 'record' || mode === 'replay' ? mode : undefined;
+};
+
+/**
+ * Number of exchanges recorded in this page session
+ */
+export const getRecordedFixtureCount = (): number => recordedFixtures.size;
+
+/**
+ * Download every exchange recorded in this page session as one fixture file
+ */
+export const downloadRecordedFixtures = (): void => {
+  const blob = new Blob([JSON.stringify([...recordedFixtures.values()], null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `ai-fixtures-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Describe the parts of a request that determine its answer. The abort
+ * signal and message ids/timestamps are left out so replays match, and
+ * attachments are identified by name and size to keep fixture files small.
+ */
+const describeRequest = (messages: ConversationMessage[], options: AIRequestOptions): AIFixture['request'] => ({
+  messages: messages.map(({ role, content, quotedText, attachments, toolCalls, toolResults }) => ({
+    role,
+    content,
+    quotedText,
+    attachments: attachments?.map(({ name, mimeType, size }) => ({ name, mimeType, size })),
+    toolCalls,
+    toolResults,
+  })),
+  systemInstruction: options.systemInstruction,
+  generation: compactGenerationParams(options.generation),
+  tools: options.tools?.map(tool => tool.name),
+  responseSchema: options.responseSchema,
+});
+
+/**
+ * Hash a request into a stable fixture key
+ */
+const createFixtureKey = async (
+  providerId: AIProviderId,
+  model: string,
+  request: AIFixture['request']
+): Promise<string> => {
+  const payload = new TextEncoder().encode(JSON.stringify({ providerId, model, request }));
+  const digest = await crypto.subtle.digest('SHA-256', payload);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Provider wrapper that records real exchanges or plays recorded ones back,
+ * so branching UI can be developed and tested without network access
+ */
+export class FixtureProvider implements AIProvider {
+  readonly id: AIProviderId;
+  readonly displayName: string;
+
+  private readonly mode: FixtureMode;
+  private readonly defaultModel: string;
+  private readonly createProvider: () => AIProvider;
+  private provider?: AIProvider;
+
+  constructor({ mode, providerId, defaultModel, createProvider }: FixtureProviderConfig) {
+    this.mode = mode;
+    this.id = providerId;
+    this.displayName = `${AI_CONFIG.providers[providerId].displayName} (${mode})`;
+    this.defaultModel = defaultModel;
+    this.createProvider = createProvider;
+  }
+
+  /**
+   * Generate a single response, recorded as one chunk
+   */
+  async generateResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): Promise<string> {
+    const model = options.model || this.defaultModel;
+    const request = describeRequest(messages, options);
+    const key = await createFixtureKey(this.id, model, request);
+
+    if (this.mode === 'replay') {
+      const fixture = this.findFixture(key);
+      if (fixture.usage) options.onUsage?.(fixture.usage);
+      if (fixture.toolCalls) options.onToolCalls?.(fixture.toolCalls);
+      return fixture.chunks.join('');
+    }
+
+    let usage: TokenUsage | undefined;
+    let toolCalls: ToolCall[] | undefined;
+    const response = await this.getProvider().generateResponse(messages, {
+      ...options,
+      onUsage: reported => {
+        usage = reported;
+        options.onUsage?.(reported);
+      },
+      onToolCalls: calls => {
+        toolCalls = calls;
+        options.onToolCalls?.(calls);
+      },
+    });
+    this.saveFixture({ key, providerId: this.id, model, request, chunks: [response], usage, toolCalls, recordedAt: new Date().toISOString() });
+    return response;
+  }
+
+  /**
+   * Stream a response, replaying recorded chunks in their original order
+   */
+  async *streamResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): AsyncGenerator<string, void, unknown> {
+    const model = options.model || this.defaultModel;
+    const request = describeRequest(messages, options);
+    const key = await createFixtureKey(this.id, model, request);
+
+    if (this.mode === 'replay') {
+      const fixture = this.findFixture(key);
+      for (const chunk of fixture.chunks) {
+        if (options.signal?.aborted) return;
+        yield chunk;
+      }
+      if (fixture.usage) options.onUsage?.(fixture.usage);
+      if (fixture.toolCalls) options.onToolCalls?.(fixture.toolCalls);
+      return;
+    }
+
+    const chunks: string[] = [];
+    let usage: TokenUsage | undefined;
+    let toolCalls: ToolCall[] | undefined;
+    const stream = this.getProvider().streamResponse(messages, {
+      ...options,
+      onUsage: reported => {
+        usage = reported;
+        options.onUsage?.(reported);
+      },
+      onToolCalls: calls => {
+        toolCalls = calls;
+        options.onToolCalls?.(calls);
+      },
+    });
+
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+
+    // A stopped answer is incomplete and would replay as if it were whole
+    if (!options.signal?.aborted) {
+      this.saveFixture({ key, providerId: this.id, model, request, chunks, usage, toolCalls, recordedAt: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * Get the model used when a request does not name one
+   */
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * List models from the real provider while recording, or the configured ones on replay
+   */
+  async listModels(): Promise<AIModelInfo[]> {
+    if (this.mode === 'record') {
+      return this.getProvider().listModels();
+    }
+
+    const models: ReadonlyArray<{ id: string; displayName: string }> = AI_CONFIG.providers[this.id].models;
+    return models.map(model => ({ id: model.id, displayName: model.displayName, providerId: this.id }));
+  }
+
+  /**
+   * Check the real provider's credentials while recording; replays need none
+   */
+  async verifyCredentials(): Promise<void> {
+    if (this.mode === 'record') {
+      await this.getProvider().verifyCredentials();
+    }
+  }
+
+  private getProvider(): AIProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider();
+    }
+    return this.provider;
+  }
+
+  private findFixture(key: string): AIFixture {
+    const fixture = fixtures.get(key);
+    if (!fixture) {
+      throw new AIServiceError('invalid_request', {
+        message: 'No recorded fixture matches this request. Record it first with VITE_AI_FIXTURES=record.',
+        detail: `Fixture key ${key}`,
+      });
+    }
+    return fixture;
+  }
+
+  private saveFixture(fixture: AIFixture): void {
+    fixtures.set(fixture.key, fixture);
+    recordedFixtures.set(fixture.key, fixture);
+  }
+}
@@ -1,156 +1,271 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { ConversationMessage } from '../types';
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionCall,
+  type FunctionDeclarationSchema,
+  type GenerateContentRequest,
+  type Part,
+  type ResponseSchema,
+  type UsageMetadata,
+} from '@google/generative-ai';
+import type { AIModelInfo, AIProvider, AIRequestOptions, ConversationMessage } from '../types';
+import { AI_CONFIG } from '../config/app';
+import { AIServiceError, classifyAIError, classifyHttpStatus } from './aiErrors';
+import { compactGenerationParams } from './generationParams';
+import { formatQuotedTextPart, formatTextAttachmentPart, hasQuotedText, resolveSystemInstruction } from './messageFormatting';
+import { toGeminiSchema } from './structuredOutput';
+
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+export interface GeminiServiceConfig {
+  apiKey: string;
+  defaultModel?: string;
+}
 
 /**
  * Service class for interacting with Google's Gemini AI API
  */
-export class GeminiService {
+export class GeminiService implements AIProvider {
+  readonly id = 'gemini' as const;
+  readonly displayName = AI_CONFIG.providers.gemini.displayName;
+
   private readonly genAI: GoogleGenerativeAI;
-  private readonly model: any; // eslint-disable-line @typescript-eslint/no-explicit-any
-  private readonly modelName: string;
+  private readonly apiKey: string;
+  private readonly defaultModel: string;
 
-  constructor(apiKey: string) {
+  constructor({ apiKey, defaultModel }: GeminiServiceConfig) {
     if (!apiKey || apiKey.trim() === '') {
       throw new Error('Gemini API key is required');
     }
 
+    this.apiKey = apiKey;
     this.genAI = new GoogleGenerativeAI(apiKey);
-    this.modelName = 'gemini-2.5-flash';
-    this.model = this.genAI.getGenerativeModel({ model: this.modelName });
+    this.defaultModel = defaultModel || AI_CONFIG.providers.gemini.defaultModel;
   }
 
   /**
    * Generate a single response from the AI model
    */
-  async generateResponse(messages: ConversationMessage[]): Promise<string> {
+  async generateResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): Promise<string> {
     if (!messages || messages.length === 0) {
       throw new Error('At least one message is required');
     }
 
     try {
-      const conversationText = this.formatConversationForAPI(messages);
-      const result = await this.model.generateContent(conversationText);
+      const request = this.buildRequest(messages, options);
+      const result = await this.getModel(options.model).generateContent(request, { signal: options.signal });
       const response = await result.response;
+      this.reportUsage(response.usageMetadata, options);
+      this.reportToolCalls(response.functionCalls() ?? [], options);
       return response.text();
     } catch (error) {
-      throw new Error(`Failed to generate AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw classifyAIError(error);
     }
   }
 
   /**
    * Stream a response from the AI model
    */
-  async *streamResponse(messages: ConversationMessage[]): AsyncGenerator<string, void, unknown> {
+  async *streamResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): AsyncGenerator<string, void, unknown> {
     if (!messages || messages.length === 0) {
       throw new Error('At least one message is required');
     }
 
     try {
-      const conversationText = this.formatConversationForAPI(messages);
-      const result = await this.model.generateContentStream(conversationText);
+      const request = this.buildRequest(messages, options);
+      const result = await this.getModel(options.model).generateContentStream(request, { signal: options.signal });
+      const functionCalls: FunctionCall[] = [];
 
       for await (const chunk of result.stream) {
+        if (options.signal?.aborted) return;
+
+        // Every chunk carries the running totals; the last one is final
+        this.reportUsage(chunk.usageMetadata, options);
+        functionCalls.push(...(chunk.functionCalls() ?? []));
+
         const chunkText = chunk.text();
         if (chunkText) {
           yield chunkText;
         }
       }
+
+      this.reportToolCalls(functionCalls, options);
     } catch (error) {
-      throw new Error(`Failed to stream AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw classifyAIError(error);
     }
   }
 
   /**
-   * Generate response with additional system context
+   * Get the model used when a request does not name one
    */
-  async generateResponseWithContext(
-    messages: ConversationMessage[],
-    systemPrompt?: string
-  ): Promise<string> {
-    if (!messages || messages.length === 0) {
-      throw new Error('At least one message is required');
-    }
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * List the generateContent-capable models available to this API key.
+   * Falls back to the configured model list when the API cannot be reached.
+   */
+  async listModels(): Promise<AIModelInfo[]> {
+    const configuredModels: AIModelInfo[] = AI_CONFIG.providers.gemini.models.map(model => ({
+      ...model,
+      providerId: this.id,
+    }));
 
     try {
-      let prompt = '';
-      
-      if (systemPrompt && systemPrompt.trim() !== '') {
-        prompt += `System: ${systemPrompt}\n\n`;
+      const response = await fetch(`${GEMINI_API_BASE_URL}/models?key=${encodeURIComponent(this.apiKey)}`);
+      if (!response.ok) {
+        return configuredModels;
       }
 
-      messages.forEach(msg => {
-        const role = msg.role === 'user' ? 'Human' : 'Assistant';
-        prompt += `${role}: ${msg.content}\n\n`;
-      });
+      const data = await response.json() as {
+        models?: Array<{ name: string; displayName?: string; supportedGenerationMethods?: string[] }>;
+      };
 
-      prompt += 'Assistant:';
+      const models = (data.models || [])
+        .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+        .map(model => {
+          const id = model.name.replace(/^models\//, '');
+          return { id, displayName: model.displayName || id, providerId: this.id };
+        });
 
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
-    } catch (error) {
-      throw new Error(`Failed to generate AI response with context: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return models.length > 0 ? models : configuredModels;
+    } catch {
+      return configuredModels;
     }
   }
 
   /**
-   * Get the current model name
+   * Check the API key with a lightweight model listing request
    */
-  getModelName(): string {
-    return this.modelName;
+  async verifyCredentials(): Promise<void> {
+    try {
+      const response = await fetch(`${GEMINI_API_BASE_URL}/models?pageSize=1&key=${encodeURIComponent(this.apiKey)}`);
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new AIServiceError(classifyHttpStatus(response.status, detail), {
+          status: response.status,
+          detail: `${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`,
+        });
+      }
+    } catch (error) {
+      throw classifyAIError(error);
+    }
   }
 
   /**
-   * Format conversation messages for the Gemini API
+   * Pass the response's token counts on to the caller
    */
-  private formatConversationForAPI(messages: ConversationMessage[]): string {
-    const formattedMessages = messages.map(msg => {
-      const role = msg.role === 'user' ? 'Human' : 'Assistant';
-      let content = msg.content;
-      
-      // Add quoted text context if present
-      if (msg.quotedText && msg.quotedText.trim() !== '') {
-        content = `[Referencing: "${msg.quotedText}"]\n\n${content}`;
-      }
-      
-      return `${role}: ${content}`;
-    });
+  private reportUsage(usage: UsageMetadata | undefined, options: AIRequestOptions): void {
+    if (!usage || !options.onUsage) return;
 
-    return formattedMessages.join('\n\n') + '\n\nAssistant:';
+    options.onUsage({
+      promptTokens: usage.promptTokenCount,
+      outputTokens: usage.candidatesTokenCount ?? 0,
+    });
   }
-}
 
-/**
- * Singleton instance for the service
- */
-let geminiServiceInstance: GeminiService | null = null;
+  /**
+   * Pass the function calls the model asked for on to the caller
+   */
+  private reportToolCalls(functionCalls: FunctionCall[], options: AIRequestOptions): void {
+    if (functionCalls.length === 0 || !options.onToolCalls) return;
 
-/**
- * Get the existing Gemini service instance or create a new one
- */
-export const getGeminiService = (apiKey?: string): GeminiService => {
-  if (!geminiServiceInstance && apiKey) {
-    geminiServiceInstance = new GeminiService(apiKey);
+    options.onToolCalls(functionCalls.map(call => ({
+      id: crypto.randomUUID(), // Gemini matches responses to calls by name and order, not id
+      name: call.name,
+      arguments: (call.args ?? {}) as Record<string, unknown>,
+    })));
   }
-  
-  if (!geminiServiceInstance) {
-    throw new Error('Gemini service not initialized. Please provide a valid API key.');
+
+  /**
+   * Get a model handle for the requested (or default) model
+   */
+  private getModel(model?: string) {
+    return this.genAI.getGenerativeModel({ model: model || this.defaultModel });
   }
-  
-  return geminiServiceInstance;
-};
 
-/**
- * Initialize the Gemini service with an API key
- */
-export const initializeGeminiService = (apiKey: string): GeminiService => {
-  geminiServiceInstance = new GeminiService(apiKey);
-  return geminiServiceInstance;
-};
+  /**
+   * Build a role-tagged request with a system instruction and sampling
+   * parameters for the Gemini API
+   */
+  private buildRequest(messages: ConversationMessage[], options: AIRequestOptions): GenerateContentRequest {
+    const { temperature, topP, maxOutputTokens, stopSequences } = compactGenerationParams(options.generation);
 
-/**
- * Reset the service instance (useful for testing)
- */
-export const resetGeminiService = (): void => {
-  geminiServiceInstance = null;
-};
+    return {
+      systemInstruction: resolveSystemInstruction(options),
+      contents: this.formatConversationForAPI(messages),
+      generationConfig: {
+        temperature,
+        topP,
+        maxOutputTokens,
+        stopSequences,
+        ...(options.responseSchema && {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(options.responseSchema) as unknown as ResponseSchema,
+        }),
+      },
+      tools: options.tools?.length
+        ? [{
+          functionDeclarations: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters as unknown as FunctionDeclarationSchema,
+          })),
+        }]
+        : undefined,
+    };
+  }
+
+  /**
+   * Convert conversation messages into Gemini contents.
+   * Consecutive turns from the same role are merged because the API
+   * expects user and model turns to alternate.
+   */
+  private formatConversationForAPI(messages: ConversationMessage[]): Content[] {
+    const contents: Content[] = [];
+
+    messages.forEach(msg => {
+      const role = msg.role === 'user' ? 'user' : 'model';
+      const parts: Part[] = [];
+
+      // Images and PDFs go inline; text files as their own text parts
+      msg.attachments?.forEach(attachment => {
+        parts.push(attachment.kind === 'text'
+          ? { text: formatTextAttachmentPart(attachment) }
+          : { inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+      });
+
+      // Carry quoted text context as its own part
+      if (msg.role === 'user' && hasQuotedText(msg.quotedText)) {
+        parts.push({ text: formatQuotedTextPart(msg.quotedText) });
+      }
+
+      // Tool rounds: the model's calls, then what each call returned
+      const toolParts: Part[] = [
+        ...(msg.toolCalls ?? []).map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+        ...(msg.toolResults ?? []).map(result => ({
+          functionResponse: {
+            name: result.name,
+            response: result.isError ? { error: result.content } : { content: result.content },
+          },
+        })),
+      ];
+
+      // Empty text parts are rejected, and tool turns often carry no text
+      if (msg.content || toolParts.length === 0) {
+        parts.push({ text: msg.content });
+      }
+      parts.push(...toolParts);
+
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    });
+
+    return contents;
+  }
+}
@@ -0,0 +1,62 @@
+import type { GenerationParams } from '../types';
+import { AI_CONFIG } from '../config/app';
+
+/**
+ * Drop unset fields so that merging never clears an inherited value
+ */
+export const compactGenerationParams = (params?: GenerationParams): GenerationParams => {
+  if (!params) return {};
+
+  const compacted: GenerationParams = {};
+  if (params.temperature !== undefined) compacted.temperature = params.temperature;
+  if (params.topP !== undefined) compacted.topP = params.topP;
+  if (params.maxOutputTokens !== undefined) compacted.maxOutputTokens = params.maxOutputTokens;
+  if (params.stopSequences && params.stopSequences.length > 0) compacted.stopSequences = params.stopSequences;
+  return compacted;
+};
+
+/**
+ * Layer generation parameters, later layers overriding earlier ones field by field
+ */
+export const mergeGenerationParams = (...layers: Array<GenerationParams | undefined>): GenerationParams => {
+  return layers.reduce<GenerationParams>(
+    (merged, layer) => ({ ...merged, ...compactGenerationParams(layer) }),
+    {}
+  );
+};
+
+/**
+ * Check whether any parameter is set
+ */
+export const hasGenerationParams = (params?: GenerationParams): boolean => {
+  return Object.keys(compactGenerationParams(params)).length > 0;
+};
+
+/**
+ * Short labels for display on nodes, e.g. ["temp 0.9", "max 512"]
+ */
+export const describeGenerationParams = (params?: GenerationParams): string[] => {
+  const { temperature, topP, maxOutputTokens, stopSequences } = compactGenerationParams(params);
+  const labels: string[] = [];
+
+  if (temperature !== undefined) labels.push(`temp ${temperature}`);
+  if (topP !== undefined) labels.push(`top-p ${topP}`);
+  if (maxOutputTokens !== undefined) labels.push(`max ${maxOutputTokens}`);
+  if (stopSequences) labels.push(`${stopSequences.length} stop`);
+
+  return labels;
+};
+
+/**
+ * Evenly spaced temperatures for a set of variants, rounded to the slider step
+ */
+export const spreadTemperatures = (count: number): number[] => {
+  const { min, max } = AI_CONFIG.variants.temperatureRange;
+  const { step } = AI_CONFIG.generation.temperature;
+  if (count <= 1) return [min];
+
+  return Array.from({ length: count }, (_, index) => {
+    const value = min + ((max - min) * index) / (count - 1);
+    return Number((Math.round(value / step) * step).toFixed(2));
+  });
+};
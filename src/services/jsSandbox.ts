@@ -0,0 +1,82 @@
+import { AI_CONFIG } from '../config/app';
+import { sandboxWorkerMain, type SandboxResponse } from './jsSandboxRuntime';
+
+export type { SandboxResponse };
+
+// No connections, images, frames or remote scripts, including dynamic import() of a URL.
+// Eval is needed to compile snippets; blob: only for the worker the frame starts.
+const SANDBOX_POLICY = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+// A string literal that cannot close the surrounding <script> element
+const serializeForScript = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/**
+ * Page loaded into the sandbox frame: it starts the worker and relays messages
+ * between it and the app. The worker cannot navigate, so it has no way out
+ * besides answering.
+ */
+const buildSandboxDocument = () => `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_POLICY}">
+<script>
+  const source = ${serializeForScript(`(${sandboxWorkerMain.toString()})();`)};
+  const worker = new Worker(URL.createObjectURL(new Blob([source], { type: 'text/javascript' })));
+  worker.onmessage = (event) => parent.postMessage(event.data, '*');
+  worker.onerror = (event) => {
+    event.preventDefault();
+    parent.postMessage({ ok: false, logs: [], error: event.message || 'The sandbox failed to start' }, '*');
+  };
+  addEventListener('message', (event) => {
+    if (event.source === parent) worker.postMessage(event.data);
+  });
+</script>`;
+
+/**
+ * Run a JavaScript snippet in a fresh worker inside an opaque-origin, sandboxed
+ * iframe. The frame, and the worker with it, is removed when it answers, runs
+ * past the time limit or the request is aborted.
+ */
+export const runInSandbox = (
+  code: string,
+  { timeoutMs = AI_CONFIG.tools.sandboxTimeoutMs, signal }: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<SandboxResponse> => {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.sandbox.add('allow-scripts'); // Without allow-same-origin the frame gets an opaque origin
+    frame.style.display = 'none';
+    frame.srcdoc = buildSandboxDocument();
+
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      window.removeEventListener('message', handleMessage);
+      frame.remove();
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Sandbox run aborted', 'AbortError'));
+    };
+
+    const handleMessage = (event: MessageEvent<SandboxResponse>) => {
+      if (event.source !== frame.contentWindow) return;
+      finish();
+      resolve(event.data);
+    };
+
+    const timer = setTimeout(() => {
+      finish();
+      resolve({ ok: false, logs: [], error: `Timed out after ${timeoutMs}ms` });
+    }, timeoutMs);
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    window.addEventListener('message', handleMessage);
+    // An opaque origin can only be addressed with '*'
+    frame.onload = () => frame.contentWindow?.postMessage({ code }, '*');
+    document.body.appendChild(frame);
+  });
+};
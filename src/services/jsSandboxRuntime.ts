@@ -0,0 +1,77 @@
+// Runs snippets for the run_javascript tool off the page. This is not a module
+// Vite bundles as a worker: jsSandbox turns sandboxWorkerMain into source text and
+// starts it in a worker inside a sandboxed iframe whose content security policy
+// blocks all network access.
+
+export interface SandboxRequest {
+  code: string;
+}
+
+export interface SandboxResponse {
+  ok: boolean;
+  logs: string[];
+  result?: string;
+  error?: string;
+}
+
+/**
+ * The worker's whole program. It is sent to the sandbox as source text via
+ * toString(), so it must not refer to anything outside its own body.
+ */
+export const sandboxWorkerMain = () => {
+  // The sandbox's policy already blocks these; hiding them gives clearer errors
+  const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'indexedDB', 'caches', 'BroadcastChannel', 'importScripts'];
+
+  BLOCKED_GLOBALS.forEach(name => {
+    try {
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Not present in this browser's worker scope
+    }
+  });
+
+  const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (...args: string[]) => (...args: unknown[]) => Promise<unknown>;
+
+  const formatValue = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'function') return value.toString();
+    if (value instanceof Error) return `${value.name}: ${value.message}`;
+
+    try {
+      return JSON.stringify(value, null, 2) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  /**
+   * Compile a snippet as an expression when possible so "1 + 1" returns 2,
+   * otherwise as a function body that may use return and await
+   */
+  const compile = (code: string) => {
+    try {
+      return new AsyncFunction('console', `"use strict";\nreturn (\n${code}\n);`);
+    } catch {
+      return new AsyncFunction('console', `"use strict";\n${code}`);
+    }
+  };
+
+  self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+    const logs: string[] = [];
+    const log = (...values: unknown[]) => {
+      logs.push(values.map(formatValue).join(' '));
+    };
+    const sandboxConsole = { log, info: log, warn: log, error: log, debug: log };
+
+    let response: SandboxResponse;
+    try {
+      const result = await compile(event.data.code)(sandboxConsole);
+      response = { ok: true, logs, result: result === undefined ? undefined : formatValue(result) };
+    } catch (error) {
+      response = { ok: false, logs, error: formatValue(error) };
+    }
+
+    self.postMessage(response);
+  };
+};
@@ -0,0 +1,32 @@
+import type { AIRequestOptions, Attachment } from '../types';
+import { AI_CONFIG } from '../config/app';
+
+/**
+ * Resolve the system instruction for a request, falling back to the app default
+ */
+export const resolveSystemInstruction = (options: AIRequestOptions): string => {
+  const systemInstruction = options.systemInstruction?.trim();
+  return systemInstruction || AI_CONFIG.systemInstruction;
+};
+
+/**
+ * Describe a quoted excerpt as its own message part so the model can tell
+ * the referenced text apart from the user's question
+ */
+export const formatQuotedTextPart = (quotedText: string): string => {
+  return `Quoted excerpt from an earlier answer:\n"""\n${quotedText.trim()}\n"""`;
+};
+
+/**
+ * Check whether a message carries quote context worth sending
+ */
+export const hasQuotedText = (quotedText?: string): quotedText is string => {
+  return !!quotedText && quotedText.trim() !== '';
+};
+
+/**
+ * Describe an attached text or code file as its own message part
+ */
+export const formatTextAttachmentPart = (attachment: Attachment): string => {
+  return `Attached file "${attachment.name}":\n"""\n${attachment.data}\n"""`;
+};
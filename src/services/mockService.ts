@@ -0,0 +1,285 @@
+import type { AIErrorKind, AIModelInfo, AIProvider, AIRequestOptions, ConversationMessage, JsonSchema, ToolCall } from '../types';
+import { AI_CONFIG } from '../config/app';
+import { AIServiceError } from './aiErrors';
+import { estimateMessageTokens, estimateTokens } from './contextBudget';
+import { sleep } from './retry';
+
+const ERROR_KINDS: ReadonlySet<string> = new Set<AIErrorKind>([
+  'auth',
+  'rate_limit',
+  'safety',
+  'network',
+  'invalid_request',
+  'invalid_output',
+  'unknown',
+]);
+
+// Prompt directive that makes the mock fail, e.g. [[mock-error:rate_limit]] or [[mock-error:network:2]]
+const ERROR_DIRECTIVE = /\[\[mock-error:([a-z_]+)(?::(\d+))?\]\]/;
+
+// Prompt directive that makes the mock call an offered tool, e.g. [[mock-tool:calculator {"expression":"6*7"}]]
+const TOOL_DIRECTIVE = /\[\[mock-tool:([a-z_]+)(?:\s+(\{.*?\}))?\]\]/;
+
+export interface MockErrorInjection {
+  kind: AIErrorKind;
+  times?: number; // Fail only the first N attempts of a prompt; omit to always fail
+}
+
+export interface MockServiceConfig {
+  firstChunkDelayMs?: number;
+  chunkDelayMs?: number;
+  chunkSize?: number;
+  scriptedResponses?: readonly string[];
+  injectError?: MockErrorInjection; // Applies to every request without its own directive
+}
+
+/**
+ * Parse an error injection written as "<kind>" or "<kind>:<times>"
+ */
+export const parseMockErrorInjection = (value?: string): MockErrorInjection | undefined => {
+  const match = value?.trim().match(/^([a-z_]+)(?::(\d+))?$/);
+  if (!match || !ERROR_KINDS.has(match[1])) return undefined;
+
+  return {
+    kind: match[1] as AIErrorKind,
+    times: match[2] !== undefined ? Number(match[2]) : undefined,
+  };
+};
+
+/**
+ * Small stable string hash so scripted picks are the same on every run
+ */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let index = 0; index < value.length; index++) {
+    hash = (hash * 31 + value.charCodeAt(index)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Build a deterministic value that conforms to a schema
+ */
+const sampleFromSchema = (schema: JsonSchema, name = 'value'): unknown => {
+  if (schema.enum?.length) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, child]) => [key, sampleFromSchema(child, key)])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 2, 1) }, (_, index) =>
+        sampleFromSchema(schema.items ?? { type: 'string' }, `${name} ${index + 1}`)
+      );
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 42;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return `sample ${name}`;
+  }
+};
+
+/**
+ * Offline provider that streams deterministic echo or scripted answers with
+ * simulated latency, for developing the canvas without network access
+ */
+export class MockService implements AIProvider {
+  readonly id = 'mock' as const;
+  readonly displayName = AI_CONFIG.providers.mock.displayName;
+
+  private readonly firstChunkDelayMs: number;
+  private readonly chunkDelayMs: number;
+  private readonly chunkSize: number;
+  private readonly scriptedResponses: readonly string[];
+  private readonly injectError?: MockErrorInjection;
+
+  // Failed attempts per prompt, so "fail N times" directives eventually succeed
+  private readonly failedAttempts = new Map<string, number>();
+
+  constructor(config: MockServiceConfig = {}) {
+    const defaults = AI_CONFIG.providers.mock;
+    this.firstChunkDelayMs = config.firstChunkDelayMs ?? defaults.firstChunkDelayMs;
+    this.chunkDelayMs = config.chunkDelayMs ?? defaults.chunkDelayMs;
+    this.chunkSize = Math.max(1, config.chunkSize ?? defaults.chunkSize);
+    this.scriptedResponses = config.scriptedResponses ?? defaults.scriptedResponses;
+    this.injectError = config.injectError;
+  }
+
+  /**
+   * Generate a single response after the simulated latency
+   */
+  async generateResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): Promise<string> {
+    if (!messages || messages.length === 0) {
+      throw new Error('At least one message is required');
+    }
+
+    await sleep(this.firstChunkDelayMs, options.signal);
+    this.maybeFail(messages);
+
+    const toolCalls = this.getToolCalls(messages, options);
+    if (toolCalls) {
+      this.reportUsage(messages, '', options);
+      options.onToolCalls?.(toolCalls);
+      return '';
+    }
+
+    const response = this.buildResponse(messages, options);
+    this.reportUsage(messages, response, options);
+    return response;
+  }
+
+  /**
+   * Stream a response in fixed-size chunks with simulated latency
+   */
+  async *streamResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): AsyncGenerator<string, void, unknown> {
+    if (!messages || messages.length === 0) {
+      throw new Error('At least one message is required');
+    }
+
+    await sleep(this.firstChunkDelayMs, options.signal);
+    if (options.signal?.aborted) return;
+    this.maybeFail(messages);
+
+    const toolCalls = this.getToolCalls(messages, options);
+    if (toolCalls) {
+      this.reportUsage(messages, '', options);
+      options.onToolCalls?.(toolCalls);
+      return;
+    }
+
+    const response = this.buildResponse(messages, options);
+    for (let offset = 0; offset < response.length; offset += this.chunkSize) {
+      if (offset > 0) {
+        await sleep(this.chunkDelayMs, options.signal);
+      }
+      if (options.signal?.aborted) return;
+
+      yield response.slice(offset, offset + this.chunkSize);
+    }
+
+    this.reportUsage(messages, response, options);
+  }
+
+  /**
+   * Get the model used when a request does not name one
+   */
+  getDefaultModel(): string {
+    return AI_CONFIG.providers.mock.defaultModel;
+  }
+
+  /**
+   * List the mock models; they never change
+   */
+  async listModels(): Promise<AIModelInfo[]> {
+    return AI_CONFIG.providers.mock.models.map(model => ({
+      id: model.id,
+      displayName: model.displayName,
+      providerId: this.id,
+    }));
+  }
+
+  /**
+   * The mock needs no credentials
+   */
+  async verifyCredentials(): Promise<void> {}
+
+  /**
+   * Report token counts estimated the same way the context budget does
+   */
+  private reportUsage(messages: ConversationMessage[], response: string, options: AIRequestOptions): void {
+    options.onUsage?.({
+      promptTokens: messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0)
+        + estimateTokens(options.systemInstruction ?? ''),
+      outputTokens: estimateTokens(response),
+    });
+  }
+
+  /**
+   * Throw the injected error for this prompt, if one applies
+   */
+  private maybeFail(messages: ConversationMessage[]): void {
+    const prompt = messages[messages.length - 1].content;
+    const directive = prompt.match(ERROR_DIRECTIVE);
+    const injection = directive && ERROR_KINDS.has(directive[1])
+      ? { kind: directive[1] as AIErrorKind, times: directive[2] !== undefined ? Number(directive[2]) : undefined }
+      : this.injectError;
+
+    if (!injection) return;
+
+    const failures = this.failedAttempts.get(prompt) ?? 0;
+    if (injection.times !== undefined && failures >= injection.times) return;
+
+    this.failedAttempts.set(prompt, failures + 1);
+    throw new AIServiceError(injection.kind, {
+      status: injection.kind === 'rate_limit' ? 429 : undefined,
+      detail: `Injected mock failure ${failures + 1}${injection.times !== undefined ? ` of ${injection.times}` : ''}`,
+    });
+  }
+
+  /**
+   * Ask for the tool named by the prompt's directive, once per prompt
+   */
+  private getToolCalls(messages: ConversationMessage[], options: AIRequestOptions): ToolCall[] | undefined {
+    const prompt = messages[messages.length - 1];
+    if (prompt.toolResults) return undefined; // Already called; answer with the results
+
+    const directive = prompt.content.match(TOOL_DIRECTIVE);
+    if (!directive || !options.tools?.some(tool => tool.name === directive[1])) return undefined;
+
+    let args: Record<string, unknown> = {};
+    try {
+      args = directive[2] ? JSON.parse(directive[2]) as Record<string, unknown> : {};
+    } catch {
+      // Malformed directive arguments; let the tool report what is missing
+    }
+
+    return [{ id: crypto.randomUUID(), name: directive[1], arguments: args }];
+  }
+
+  /**
+   * Build a deterministic answer: the echo model reflects the request back,
+   * the scripted model picks a canned answer based on the prompt
+   */
+  private buildResponse(messages: ConversationMessage[], options: AIRequestOptions): string {
+    const prompt = messages[messages.length - 1];
+
+    if (options.responseSchema) {
+      return JSON.stringify(sampleFromSchema(options.responseSchema), null, 2);
+    }
+
+    if (prompt.toolResults) {
+      return ['Tool results:', ...prompt.toolResults.map(result =>
+        `- ${result.name}${result.isError ? ' (failed)' : ''}: ${result.content}`
+      )].join('\n');
+    }
+
+    if ((options.model || this.getDefaultModel()) === 'mock-scripted' && this.scriptedResponses.length > 0) {
+      return this.scriptedResponses[hashString(prompt.content) % this.scriptedResponses.length];
+    }
+
+    const lines = [
+      `Echo: ${prompt.content.replace(ERROR_DIRECTIVE, '').replace(TOOL_DIRECTIVE, '').trim()}`,
+      '',
+      `This branch sent ${messages.length - 1} earlier message${messages.length === 2 ? '' : 's'} as context.`,
+    ];
+
+    if (prompt.quotedText) {
+      lines.push(`Quoted excerpt: "${prompt.quotedText.trim()}"`);
+    }
+
+    const attachments = messages.flatMap(msg => msg.attachments ?? []);
+    if (attachments.length > 0) {
+      lines.push(`Attachments in context: ${attachments.map(file => `${file.name} (${file.kind})`).join(', ')}`);
+    }
+    if (options.systemInstruction) {
+      lines.push(`System prompt: ${options.systemInstruction.split('\n')[0]}`);
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,146 @@
+import type { ChatMessage, ConversationNode } from '../types';
+
+const EMPTY_HISTORY: ChatMessage[] = [];
+
+// Lookup tables per nodes array; the store replaces the array on every change
+const nodeIndexCache = new WeakMap<ConversationNode[], Map<string, ConversationNode>>();
+
+// Child lists per nodes array
+const childIndexCache = new WeakMap<ConversationNode[], Map<string, ConversationNode[]>>();
+
+// Conversation up to and including a node, reused while the node and its
+// inherited history are unchanged
+const conversationCache = new WeakMap<ConversationNode, { inherited: ChatMessage[]; conversation: ChatMessage[] }>();
+
+const indexNodes = (nodes: ConversationNode[]): Map<string, ConversationNode> => {
+  let index = nodeIndexCache.get(nodes);
+  if (!index) {
+    index = new Map(nodes.map(node => [node.id, node]));
+    nodeIndexCache.set(nodes, index);
+  }
+  return index;
+};
+
+/**
+ * The turns a node adds to the conversation: its prompt, any tool rounds and its answer
+ */
+export const getExchangeMessages = (node: ConversationNode): ChatMessage[] => {
+  const { currentExchange } = node;
+  const messages: ChatMessage[] = [];
+
+  if (currentExchange.userMessage) {
+    messages.push({
+      role: 'user',
+      content: currentExchange.userMessage,
+      timestamp: node.createdAt,
+      quotedText: currentExchange.quotedText,
+      attachments: currentExchange.attachments,
+    });
+  }
+
+  // Failed generations are never fed back to the model as assistant turns
+  if (currentExchange.error) return messages;
+
+  // Tool rounds come before the final answer, each a call turn and a result turn
+  currentExchange.toolSteps?.forEach(step => {
+    messages.push(
+      { role: 'assistant', content: step.text, timestamp: node.createdAt, toolCalls: step.calls },
+      { role: 'user', content: '', timestamp: node.createdAt, toolResults: step.results }
+    );
+  });
+
+  if (currentExchange.aiResponse) {
+    messages.push({ role: 'assistant', content: currentExchange.aiResponse, timestamp: node.createdAt });
+  }
+
+  return messages;
+};
+
+const indexChildren = (nodes: ConversationNode[]): Map<string, ConversationNode[]> => {
+  let index = childIndexCache.get(nodes);
+  if (!index) {
+    index = new Map();
+    for (const node of nodes) {
+      if (!node.parentId) continue;
+      const siblings = index.get(node.parentId);
+      if (siblings) siblings.push(node);
+      else index.set(node.parentId, [node]);
+    }
+    childIndexCache.set(nodes, index);
+  }
+  return index;
+};
+
+/**
+ * Every node below the given one, parents before their children
+ */
+export const getDescendants = (nodes: ConversationNode[], nodeId: string): ConversationNode[] => {
+  const children = indexChildren(nodes);
+  const descendants: ConversationNode[] = [];
+  const seen = new Set([nodeId]);
+  const queue = [...(children.get(nodeId) ?? [])];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (seen.has(node.id)) continue;
+    seen.add(node.id);
+    descendants.push(node);
+    queue.push(...(children.get(node.id) ?? []));
+  }
+  return descendants;
+};
+
+/**
+ * Nodes from the given node up to its root, stopping at missing parents or cycles
+ */
+export const getAncestorChain = (nodes: ConversationNode[], nodeId: string): ConversationNode[] => {
+  const index = indexNodes(nodes);
+  const chain: ConversationNode[] = [];
+  const seen = new Set<string>();
+
+  let current = index.get(nodeId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.push(current);
+    current = current.parentId ? index.get(current.parentId) : undefined;
+  }
+  return chain;
+};
+
+/**
+ * Full conversation up to and including a node, derived from its parent chain.
+ * The result is shared between calls and must not be mutated.
+ */
+export const selectNodeConversation = (nodes: ConversationNode[], nodeId: string): ChatMessage[] => {
+  const chain = getAncestorChain(nodes, nodeId);
+  let inherited = chain[chain.length - 1]?.detachedHistory ?? EMPTY_HISTORY;
+
+  // Walk from the root down, reusing every prefix that has not changed
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    const cached = conversationCache.get(node);
+    if (cached && cached.inherited === inherited) {
+      inherited = cached.conversation;
+      continue;
+    }
+
+    const conversation = [...inherited, ...getExchangeMessages(node)];
+    conversationCache.set(node, { inherited, conversation });
+    inherited = conversation;
+  }
+
+  return inherited;
+};
+
+/**
+ * Conversation a node inherits from its ancestors, excluding its own exchange.
+ * The result is shared between calls and must not be mutated.
+ */
+export const selectNodeHistory = (nodes: ConversationNode[], nodeId: string): ChatMessage[] => {
+  const node = indexNodes(nodes).get(nodeId);
+  if (!node) return EMPTY_HISTORY;
+  if (!node.parentId) return node.detachedHistory ?? EMPTY_HISTORY;
+  return indexNodes(nodes).has(node.parentId)
+    ? selectNodeConversation(nodes, node.parentId)
+    : node.detachedHistory ?? EMPTY_HISTORY;
+};
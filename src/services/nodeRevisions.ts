@@ -0,0 +1,86 @@
+import type { ConversationNode, NodeRevision } from '../types';
+import { generateId } from '../utils';
+
+const NO_REVISIONS: NodeRevision[] = [];
+
+/**
+ * The node's current prompt and answer as a revision
+ */
+const toRevision = (node: ConversationNode): NodeRevision => {
+  const { userMessage, aiResponse, toolSteps, status, error } = node.currentExchange;
+  return {
+    id: node.revisionId,
+    userMessage,
+    aiResponse,
+    toolSteps,
+    status,
+    error,
+    metadata: node.metadata,
+    createdAt: node.revisedAt ?? node.createdAt,
+  };
+};
+
+export const getRevisionIndex = (node: ConversationNode): number =>
+  node.revisionIndex ?? node.revisions?.length ?? 0;
+
+/**
+ * Whether a node's answer was generated from a revision of its parent that is no longer current
+ */
+export const isBuiltOnOtherRevision = (node: ConversationNode, parent: ConversationNode | undefined): boolean =>
+  !!parent && !!node.metadata && node.metadata.parentRevisionId !== parent.revisionId;
+
+export const getRevisionCount = (node: ConversationNode): number =>
+  (node.revisions?.length ?? 0) + 1;
+
+/**
+ * Every revision of a node in the order they were sent, the current one included
+ */
+export const listRevisions = (node: ConversationNode): NodeRevision[] => {
+  const others = node.revisions ?? NO_REVISIONS;
+  const index = getRevisionIndex(node);
+  return [...others.slice(0, index), toRevision(node), ...others.slice(index)];
+};
+
+/**
+ * Updates that keep the node's current exchange as a revision and start a new,
+ * unanswered one with the given prompt; the same prompt regenerates the answer.
+ * The quote and attachments carry over.
+ */
+export const startRevision = (node: ConversationNode, userMessage: string): Partial<ConversationNode> => {
+  const revisions = listRevisions(node);
+  return {
+    currentExchange: {
+      ...node.currentExchange,
+      userMessage: userMessage.trim(),
+      aiResponse: '',
+      toolSteps: undefined,
+      status: undefined,
+      error: undefined,
+    },
+    metadata: undefined,
+    revisions,
+    revisionIndex: revisions.length,
+    revisionId: generateId(),
+    revisedAt: new Date(),
+  };
+};
+
+/**
+ * Updates that make another revision of the node current. Descendants inherit
+ * whichever revision is current.
+ */
+export const switchRevision = (node: ConversationNode, index: number): Partial<ConversationNode> | null => {
+  const revisions = listRevisions(node);
+  const target = revisions[index];
+  if (!target || index === getRevisionIndex(node)) return null;
+
+  const { id, userMessage, aiResponse, toolSteps, status, error, metadata, createdAt } = target;
+  return {
+    currentExchange: { ...node.currentExchange, userMessage, aiResponse, toolSteps, status, error },
+    metadata,
+    revisions: revisions.filter((_, i) => i !== index),
+    revisionIndex: index,
+    revisionId: id,
+    revisedAt: createdAt,
+  };
+};
@@ -0,0 +1,351 @@
+import type { AIModelInfo, AIProvider, AIRequestOptions, ConversationMessage, ToolCall } from '../types';
+import { AI_CONFIG } from '../config/app';
+import { AIServiceError, classifyAIError, classifyHttpStatus } from './aiErrors';
+import { compactGenerationParams } from './generationParams';
+import { formatQuotedTextPart, formatTextAttachmentPart, hasQuotedText, resolveSystemInstruction } from './messageFormatting';
+import { toDataUrl } from './attachments';
+
+export interface OpenAICompatibleServiceConfig {
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel?: string;
+}
+
+type ChatCompletionContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string }; // Arguments as a JSON string
+}
+
+type ChatCompletionMessage =
+  | { role: 'system' | 'user'; content: string | ChatCompletionContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatCompletionToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+// Streamed tool calls arrive in pieces keyed by index
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Turn wire-format tool calls into ours, tolerating malformed argument JSON
+ */
+const parseToolCalls = (calls: Array<{ id?: string; function?: { name?: string; arguments?: string } }>): ToolCall[] => {
+  return calls
+    .filter(call => call.function?.name)
+    .map(call => {
+      let args: Record<string, unknown> = {};
+      try {
+        args = JSON.parse(call.function?.arguments || '{}') as Record<string, unknown>;
+      } catch {
+        // Leave arguments empty; the tool reports what is missing
+      }
+      return { id: call.id || crypto.randomUUID(), name: call.function?.name ?? '', arguments: args };
+    });
+};
+
+/**
+ * Service class for OpenAI-compatible chat-completions servers
+ * (llama.cpp server, Ollama, LM Studio, vLLM, ...)
+ */
+export class OpenAICompatibleService implements AIProvider {
+  readonly id = 'openai-compatible' as const;
+  readonly displayName = AI_CONFIG.providers['openai-compatible'].displayName;
+
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly defaultModel: string;
+
+  constructor({ baseUrl, apiKey, defaultModel }: OpenAICompatibleServiceConfig) {
+    if (!baseUrl || baseUrl.trim() === '') {
+      throw new Error('OpenAI-compatible base URL is required');
+    }
+
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey?.trim() || undefined;
+    this.defaultModel = defaultModel || AI_CONFIG.providers['openai-compatible'].defaultModel;
+  }
+
+  /**
+   * Generate a single response from the AI model
+   */
+  async generateResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): Promise<string> {
+    if (!messages || messages.length === 0) {
+      throw new Error('At least one message is required');
+    }
+
+    try {
+      const response = await this.postChatCompletion(messages, options, false);
+      const data = await response.json() as {
+        choices?: Array<{ message?: { content?: string | null; tool_calls?: ChatCompletionToolCall[] } }>;
+        usage?: ChatCompletionUsage;
+      };
+      this.reportUsage(data.usage, options);
+      this.reportToolCalls(parseToolCalls(data.choices?.[0]?.message?.tool_calls ?? []), options);
+      return data.choices?.[0]?.message?.content || '';
+    } catch (error) {
+      throw classifyAIError(error);
+    }
+  }
+
+  /**
+   * Stream a response from the AI model using server-sent events
+   */
+  async *streamResponse(messages: ConversationMessage[], options: AIRequestOptions = {}): AsyncGenerator<string, void, unknown> {
+    if (!messages || messages.length === 0) {
+      throw new Error('At least one message is required');
+    }
+
+    try {
+      const response = await this.postChatCompletion(messages, options, true);
+      if (!response.body) {
+        throw new AIServiceError('invalid_request', { detail: 'Response body is empty' });
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const toolCalls: Array<{ id?: string; function: { name: string; arguments: string } }> = [];
+      let buffer = '';
+      let finished = false;
+
+      while (!finished) {
+        if (options.signal?.aborted) {
+          await reader.cancel();
+          return;
+        }
+
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') {
+            finished = true;
+            break;
+          }
+
+          const chunk = JSON.parse(payload) as {
+            choices?: Array<{ delta?: { content?: string | null; tool_calls?: ToolCallDelta[] } }>;
+            usage?: ChatCompletionUsage | null;
+          };
+
+          // Servers that honour include_usage send the totals in a final chunk
+          this.reportUsage(chunk.usage, options);
+
+          chunk.choices?.[0]?.delta?.tool_calls?.forEach(delta => {
+            const call = toolCalls[delta.index] ??= { function: { name: '', arguments: '' } };
+            call.id ??= delta.id;
+            call.function.name += delta.function?.name ?? '';
+            call.function.arguments += delta.function?.arguments ?? '';
+          });
+
+          const chunkText = chunk.choices?.[0]?.delta?.content;
+          if (chunkText) {
+            yield chunkText;
+          }
+        }
+      }
+
+      this.reportToolCalls(parseToolCalls(toolCalls.filter(Boolean)), options);
+    } catch (error) {
+      throw classifyAIError(error);
+    }
+  }
+
+  /**
+   * Get the model used when a request does not name one
+   */
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * List models exposed by the server's /models endpoint.
+   * Falls back to the default model when the server does not implement it.
+   */
+  async listModels(): Promise<AIModelInfo[]> {
+    const fallback: AIModelInfo[] = [{ id: this.defaultModel, displayName: this.defaultModel, providerId: this.id }];
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() });
+      if (!response.ok) {
+        return fallback;
+      }
+
+      const data = await response.json() as { data?: Array<{ id: string }> };
+      const models = (data.data || []).map(model => ({
+        id: model.id,
+        displayName: model.id,
+        providerId: this.id,
+      }));
+
+      return models.length > 0 ? models : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /**
+   * Check that the server is reachable and accepts the key. Servers without
+   * a /models endpoint count as verified once they answer.
+   */
+  async verifyCredentials(): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() });
+      if (response.ok || response.status === 404) return;
+
+      const detail = await response.text().catch(() => '');
+      throw new AIServiceError(classifyHttpStatus(response.status, detail), {
+        status: response.status,
+        detail: `${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`,
+      });
+    } catch (error) {
+      throw classifyAIError(error);
+    }
+  }
+
+  /**
+   * Pass reported token counts on to the caller
+   */
+  private reportUsage(usage: ChatCompletionUsage | null | undefined, options: AIRequestOptions): void {
+    if (!usage || usage.prompt_tokens === undefined || !options.onUsage) return;
+
+    options.onUsage({
+      promptTokens: usage.prompt_tokens,
+      outputTokens: usage.completion_tokens ?? 0,
+    });
+  }
+
+  /**
+   * Pass the tool calls the model asked for on to the caller
+   */
+  private reportToolCalls(calls: ToolCall[], options: AIRequestOptions): void {
+    if (calls.length > 0) {
+      options.onToolCalls?.(calls);
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async postChatCompletion(
+    messages: ConversationMessage[],
+    options: AIRequestOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const { temperature, topP, maxOutputTokens, stopSequences } = compactGenerationParams(options.generation);
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        messages: this.formatMessagesForAPI(messages, options),
+        stream,
+        stream_options: stream ? { include_usage: true } : undefined,
+        temperature,
+        top_p: topP,
+        max_tokens: maxOutputTokens,
+        stop: stopSequences,
+        response_format: options.responseSchema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: options.responseSchema } }
+          : undefined,
+        tools: options.tools?.length
+          ? options.tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+          : undefined,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new AIServiceError(classifyHttpStatus(response.status, detail), {
+        status: response.status,
+        detail: `${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Format conversation messages as role-tagged chat-completions messages,
+   * led by the system instruction
+   */
+  private formatMessagesForAPI(messages: ConversationMessage[], options: AIRequestOptions): ChatCompletionMessage[] {
+    const systemMessage: ChatCompletionMessage = {
+      role: 'system',
+      content: resolveSystemInstruction(options),
+    };
+
+    const conversation = messages.flatMap((msg): ChatCompletionMessage | ChatCompletionMessage[] => {
+      // Tool rounds: the model's calls, then one tool message per result
+      if (msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        };
+      }
+      if (msg.toolResults?.length) {
+        return msg.toolResults.map(result => ({ role: 'tool', tool_call_id: result.callId, content: result.content }));
+      }
+
+      if (msg.role !== 'user' || (!hasQuotedText(msg.quotedText) && !msg.attachments?.length)) {
+        return { role: msg.role, content: msg.content };
+      }
+
+      // Carry attachments and quoted text context as their own content parts
+      const content: ChatCompletionContentPart[] = (msg.attachments ?? []).map((attachment): ChatCompletionContentPart => {
+        switch (attachment.kind) {
+          case 'image':
+            return { type: 'image_url', image_url: { url: toDataUrl(attachment) } };
+          case 'pdf':
+            return { type: 'file', file: { filename: attachment.name, file_data: toDataUrl(attachment) } };
+          case 'text':
+            return { type: 'text', text: formatTextAttachmentPart(attachment) };
+        }
+      });
+
+      if (hasQuotedText(msg.quotedText)) {
+        content.push({ type: 'text', text: formatQuotedTextPart(msg.quotedText) });
+      }
+      content.push({ type: 'text', text: msg.content });
+
+      return { role: 'user', content };
+    });
+
+    return [systemMessage, ...conversation];
+  }
+}
@@ -0,0 +1,177 @@
+import type { ChatMessage } from '../types';
+
+type PersistedState = Record<string, unknown>;
+type MigrationStep = (state: PersistedState) => PersistedState;
+
+type LegacyNode = Record<string, unknown> & { id: string; parentId?: string | null; messages?: ChatMessage[] };
+type LegacySession = Record<string, unknown> & { canvas: Record<string, unknown> & { nodes: LegacyNode[] } };
+
+// Persisted fields that hold dates; JSON turns them into ISO strings
+const DATE_FIELDS: ReadonlySet<string> = new Set(['createdAt', 'updatedAt', 'lastActivity', 'timestamp', 'queuedAt', 'deletedAt', 'revisedAt']);
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+/**
+ * A persisted state that could not be upgraded. The data it came from is
+ * left in storage and, when possible, copied to a backup key.
+ */
+export class MigrationError extends Error {
+  readonly fromVersion: number;
+  readonly toVersion: number;
+  backupKey?: string;
+
+  constructor(message: string, fromVersion: number, toVersion: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'MigrationError';
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * JSON.parse reviver that turns ISO strings in known date fields back into Dates
+ */
+export const reviveDates = (key: string, value: unknown): unknown => {
+  return DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value)
+    ? new Date(value)
+    : value;
+};
+
+/**
+ * Fill in fields that sessions saved before version 4 may lack, instead of discarding them
+ */
+const normalizeSessions: MigrationStep = (state) => {
+  if (state.sessions !== undefined && !Array.isArray(state.sessions)) {
+    throw new Error('"sessions" is not a list');
+  }
+
+  const now = new Date();
+  const sessions = ((state.sessions ?? []) as unknown[]).filter(isRecord).map(session => {
+    if (typeof session.id !== 'string') throw new Error('A session has no id');
+
+    const canvas = isRecord(session.canvas) ? session.canvas : {};
+    const nodes = (Array.isArray(canvas.nodes) ? canvas.nodes : []).filter(isRecord).map(node => ({
+      ...node,
+      parentId: node.parentId ?? null,
+      currentExchange: { userMessage: '', aiResponse: '', ...(isRecord(node.currentExchange) ? node.currentExchange : {}) },
+      position: isRecord(node.position) ? node.position : { x: 0, y: 0 },
+      createdAt: node.createdAt ?? now,
+    }));
+    const edges = (Array.isArray(canvas.edges) ? canvas.edges : []).filter(isRecord);
+    const title = typeof session.title === 'string' ? session.title : 'Untitled conversation';
+
+    return {
+      ...session,
+      title,
+      canvas: {
+        id: session.id,
+        title,
+        viewport: { x: 0, y: 0, zoom: 1 },
+        createdAt: now,
+        updatedAt: now,
+        ...canvas,
+        nodes,
+        edges,
+        metadata: { nodeCount: nodes.length, branchCount: 0, lastActivity: now, ...(isRecord(canvas.metadata) ? canvas.metadata : {}) },
+      },
+      metadata: { totalMessages: nodes.length, branchCount: 0, lastActivity: now, ...(isRecord(session.metadata) ? session.metadata : {}) },
+    };
+  });
+
+  return { activeNodeId: null, textSelection: null, ...state, sessions };
+};
+
+/**
+ * Drop the single-stream state persisted before streams were keyed per node
+ */
+const dropStreamingState: MigrationStep = (state) => {
+  const next = { ...state };
+  delete next.streamingState;
+  return next;
+};
+
+/**
+ * Remove the per-node history copies of the old storage format. Nodes whose
+ * parent no longer exists keep their copy, since it cannot be derived.
+ */
+const stripCopiedHistory: MigrationStep = (state) => {
+  const sessions = (state.sessions ?? []) as LegacySession[];
+  return {
+    ...state,
+    sessions: sessions.map(session => {
+      const nodeIds = new Set(session.canvas.nodes.map(node => node.id));
+      return {
+        ...session,
+        canvas: {
+          ...session.canvas,
+          nodes: session.canvas.nodes.map(({ messages, ...node }) => {
+            const isOrphan = !!node.parentId && !nodeIds.has(node.parentId);
+            return isOrphan && messages?.length ? { ...node, detachedHistory: messages } : node;
+          }),
+        },
+      };
+    }),
+  };
+};
+
+// Each step upgrades state saved by the previous version to its key's version
+const MIGRATIONS: Record<number, MigrationStep> = {
+  4: normalizeSessions,
+  5: dropStreamingState,
+  6: stripCopiedHistory,
+};
+
+/**
+ * Upgrade persisted state one version at a time
+ */
+export const migratePersistedState = (state: unknown, fromVersion: number, toVersion: number): PersistedState => {
+  if (fromVersion > toVersion) {
+    throw new MigrationError(
+      `Saved conversations are from a newer version of Lattice (v${fromVersion}) than this one (v${toVersion}).`,
+      fromVersion,
+      toVersion
+    );
+  }
+  if (!isRecord(state)) {
+    throw new MigrationError('Saved conversations are not in a recognizable format.', fromVersion, toVersion);
+  }
+
+  let migrated: PersistedState = state;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) continue;
+
+    try {
+      migrated = step(migrated);
+    } catch (error) {
+      throw new MigrationError(
+        `Upgrading saved conversations to v${version} failed: ${error instanceof Error ? error.message : String(error)}`,
+        fromVersion,
+        toVersion,
+        { cause: error }
+      );
+    }
+  }
+
+  return migrated;
+};
+
+/**
+ * Copy the raw persisted value to a backup key before it is migrated or
+ * replaced. Returns the key, or undefined if storage refused the copy.
+ */
+export const backupPersistedState = (storageName: string, label: number | 'unreadable'): string | undefined => {
+  const backupKey = `${storageName}-backup-${typeof label === 'number' ? `v${label}` : label}`;
+  try {
+    const raw = localStorage.getItem(storageName);
+    if (raw === null) return undefined;
+    localStorage.setItem(backupKey, raw);
+    return backupKey;
+  } catch (error) {
+    console.error('Could not back up saved conversations before migrating:', error);
+    return undefined;
+  }
+};
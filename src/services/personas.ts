@@ -0,0 +1,27 @@
+import type { ConversationSession, NodeConfig, Persona } from '../types';
+import { AI_CONFIG } from '../config/app';
+
+/**
+ * Find the persona a node runs as, if its (inherited) pick still exists
+ */
+export const resolvePersona = (
+  config?: NodeConfig,
+  session?: ConversationSession | null
+): Persona | undefined => {
+  if (!config?.personaId) return undefined;
+  return session?.settings?.personas?.find(persona => persona.id === config.personaId);
+};
+
+/**
+ * Resolve the system prompt for a node: its persona, else the session's
+ * prompt, else the app default
+ */
+export const resolveSystemPrompt = (
+  config?: NodeConfig,
+  session?: ConversationSession | null
+): string => {
+  const persona = resolvePersona(config, session);
+  return persona?.systemPrompt.trim()
+    || session?.settings?.systemPrompt?.trim()
+    || AI_CONFIG.systemInstruction;
+};
@@ -0,0 +1,205 @@
+import type {
+  AIModelInfo,
+  AIProvider,
+  AIProviderId,
+  AIProviderInfo,
+  ConversationSession,
+  ModelSelection,
+  NodeConfig,
+} from '../types';
+import { AI_CONFIG } from '../config/app';
+import { AIServiceError } from './aiErrors';
+import { GeminiService } from './geminiService';
+import { OpenAICompatibleService } from './openAICompatibleService';
+import { MockService, parseMockErrorInjection } from './mockService';
+import { FixtureProvider, getFixtureMode } from './fixtureProvider';
+import { useCredentialsStore } from '../store/credentialsStore';
+
+/**
+ * Parse a millisecond setting from the environment
+ */
+const parseDelay = (value?: string): number | undefined => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * API keys baked in at build time, used when no saved key is active
+ */
+const getEnvApiKey = (providerId: AIProviderId): string | undefined => {
+  switch (providerId) {
+    case 'gemini': {
+      const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+      return apiKey && apiKey !== 'your_gemini_api_key_here' ? apiKey : undefined;
+    }
+    case 'openai-compatible':
+      return import.meta.env.VITE_OPENAI_COMPATIBLE_API_KEY || undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Resolve the API key a provider uses: the active saved key, else the build-time one
+ */
+export const resolveApiKey = (providerId: AIProviderId): string | undefined => {
+  return useCredentialsStore.getState().getActiveApiKey(providerId) ?? getEnvApiKey(providerId);
+};
+
+/**
+ * Factories for every supported provider, given the API key to use
+ */
+const providerFactories: Record<AIProviderId, (apiKey?: string) => AIProvider> = {
+  gemini: (apiKey) => {
+    if (!apiKey) {
+      const message = useCredentialsStore.getState().hasLockedCredentials('gemini')
+        ? 'Your saved Gemini API key is locked. Unlock your credentials to use it.'
+        : 'No Gemini API key configured. Add one under API keys in the header or set VITE_GEMINI_API_KEY.';
+      throw new AIServiceError('auth', { message });
+    }
+
+    return new GeminiService({ apiKey });
+  },
+  'openai-compatible': (apiKey) => new OpenAICompatibleService({
+    baseUrl: import.meta.env.VITE_OPENAI_COMPATIBLE_BASE_URL || AI_CONFIG.providers['openai-compatible'].baseUrl,
+    apiKey,
+    defaultModel: getProviderDefaultModel('openai-compatible'),
+  }),
+  mock: () => new MockService({
+    firstChunkDelayMs: parseDelay(import.meta.env.VITE_MOCK_LATENCY_MS),
+    chunkDelayMs: parseDelay(import.meta.env.VITE_MOCK_CHUNK_DELAY_MS),
+    injectError: parseMockErrorInjection(import.meta.env.VITE_MOCK_ERROR),
+  }),
+};
+
+/**
+ * Provider instances, created lazily on first use and remembered with the
+ * key they were created for so switching keys takes effect immediately
+ */
+const providerInstances = new Map<AIProviderId, { apiKey?: string; provider: AIProvider }>();
+
+/**
+ * Resolve the provider used when a session does not pick one
+ */
+export const getDefaultProviderId = (): AIProviderId => {
+  const configured = import.meta.env.VITE_AI_PROVIDER;
+  return configured && configured in providerFactories
+    ? configured as AIProviderId
+    : AI_CONFIG.defaultProvider;
+};
+
+/**
+ * Resolve the model a provider uses when a branch does not pick one
+ */
+export const getProviderDefaultModel = (providerId: AIProviderId): string => {
+  if (providerId === 'openai-compatible' && import.meta.env.VITE_OPENAI_COMPATIBLE_MODEL) {
+    return import.meta.env.VITE_OPENAI_COMPATIBLE_MODEL;
+  }
+  return AI_CONFIG.providers[providerId].defaultModel;
+};
+
+/**
+ * Resolve the model a node runs on: its own (or inherited) pick, else the
+ * session's provider with that provider's default model
+ */
+export const resolveModelSelection = (
+  config?: NodeConfig,
+  session?: ConversationSession | null
+): ModelSelection => {
+  if (config?.model) {
+    return config.model;
+  }
+
+  const providerId = session?.providerId ?? getDefaultProviderId();
+  return { providerId, model: getProviderDefaultModel(providerId) };
+};
+
+/**
+ * Create a provider, wrapped for recording or replaying fixtures when enabled.
+ * The mock provider is deterministic already and is never wrapped.
+ */
+const createProvider = (providerId: AIProviderId, factory: () => AIProvider): AIProvider => {
+  const fixtureMode = getFixtureMode();
+  if (!fixtureMode || providerId === 'mock') {
+    return factory();
+  }
+
+  return new FixtureProvider({
+    mode: fixtureMode,
+    providerId,
+    defaultModel: getProviderDefaultModel(providerId),
+    createProvider: factory,
+  });
+};
+
+/**
+ * Get the existing provider instance or create a new one
+ */
+export const getAIProvider = (providerId: AIProviderId = getDefaultProviderId()): AIProvider => {
+  const apiKey = resolveApiKey(providerId);
+  const cached = providerInstances.get(providerId);
+  if (cached && cached.apiKey === apiKey) {
+    return cached.provider;
+  }
+
+  const factory = providerFactories[providerId];
+  if (!factory) {
+    throw new Error(`Unknown AI provider: ${providerId}`);
+  }
+
+  const provider = createProvider(providerId, () => factory(apiKey));
+  providerInstances.set(providerId, { apiKey, provider });
+  return provider;
+};
+
+/**
+ * Check a key against the provider without touching the cached instance
+ */
+export const testApiKey = async (providerId: AIProviderId, apiKey: string): Promise<void> => {
+  await providerFactories[providerId](apiKey).verifyCredentials();
+};
+
+/**
+ * Whether a provider takes an API key at all
+ */
+export const providerUsesApiKey = (providerId: AIProviderId): boolean => providerId !== 'mock';
+
+/**
+ * Whether a key was provided at build time for the provider
+ */
+export const hasEnvApiKey = (providerId: AIProviderId): boolean => getEnvApiKey(providerId) !== undefined;
+
+/**
+ * List every provider that can be selected for a session
+ */
+export const getAvailableProviders = (): AIProviderInfo[] => {
+  return (Object.keys(providerFactories) as AIProviderId[]).map(id => ({
+    id,
+    displayName: AI_CONFIG.providers[id].displayName,
+  }));
+};
+
+/**
+ * List the models configured for every provider, without touching the network
+ */
+export const getConfiguredModels = (): AIModelInfo[] => {
+  return (Object.keys(providerFactories) as AIProviderId[]).flatMap(providerId => {
+    const models: ReadonlyArray<{ id: string; displayName: string }> = AI_CONFIG.providers[providerId].models;
+    return models.map(model => ({ id: model.id, displayName: model.displayName, providerId }));
+  });
+};
+
+/**
+ * Get a human-readable name for a model, falling back to its id
+ */
+export const getModelDisplayName = (providerId: AIProviderId, model: string): string => {
+  const models: ReadonlyArray<{ id: string; displayName: string }> = AI_CONFIG.providers[providerId]?.models ?? [];
+  return models.find(entry => entry.id === model)?.displayName ?? model;
+};
+
+/**
+ * Reset cached provider instances (useful for testing)
+ */
+export const resetAIProviders = (): void => {
+  providerInstances.clear();
+};
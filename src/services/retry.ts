@@ -0,0 +1,97 @@
+import { AI_CONFIG } from '../config/app';
+import { classifyAIError, type AIServiceError } from './aiErrors';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: AIServiceError, delayMs: number) => void;
+}
+
+/**
+ * Exponential backoff delay with full jitter for the given (1-based) attempt
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelayMs: number = AI_CONFIG.retry.baseDelayMs,
+  maxDelayMs: number = AI_CONFIG.retry.maxDelayMs
+): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+/**
+ * Wait for the given time, resolving early if the signal aborts
+ */
+export const sleep = (delayMs: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, delayMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+};
+
+/**
+ * Decide whether a failed attempt should be retried
+ */
+const shouldRetry = (error: AIServiceError, attempt: number, maxAttempts: number, signal?: AbortSignal) => {
+  return error.retryable && attempt < maxAttempts && !signal?.aborted;
+};
+
+/**
+ * Run a request, retrying transient failures with exponential backoff
+ */
+export const withRetry = async <T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = AI_CONFIG.retry.maxAttempts, baseDelayMs, maxDelayMs, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const aiError = classifyAIError(error);
+      if (!shouldRetry(aiError, attempt, maxAttempts, signal)) {
+        throw aiError;
+      }
+
+      const delayMs = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(attempt, aiError, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Stream a response, retrying transient failures with exponential backoff.
+ * Only failures before the first chunk are retried so that a retry never
+ * duplicates text the caller has already received.
+ */
+export async function* withStreamRetry<T>(
+  createStream: () => AsyncGenerator<T, void, unknown>,
+  options: RetryOptions = {}
+): AsyncGenerator<T, void, unknown> {
+  const { maxAttempts = AI_CONFIG.retry.maxAttempts, baseDelayMs, maxDelayMs, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    let hasYielded = false;
+
+    try {
+      for await (const chunk of createStream()) {
+        hasYielded = true;
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      const aiError = classifyAIError(error);
+      if (hasYielded || !shouldRetry(aiError, attempt, maxAttempts, signal)) {
+        throw aiError;
+      }
+
+      const delayMs = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(attempt, aiError, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
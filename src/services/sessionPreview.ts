@@ -0,0 +1,58 @@
+import type { ConversationNode, ConversationSession, SessionPreview } from '../types';
+import { STORAGE_CONFIG } from '../config/app';
+
+const EMPTY_PREVIEW: SessionPreview = { points: [], links: [] };
+
+// Previews per nodes array; the store replaces the array on every change
+const previewCache = new WeakMap<ConversationNode[], SessionPreview>();
+
+/**
+ * Scale node positions into a unit square, keeping the canvas aspect ratio
+ */
+export const buildSessionPreview = (nodes: ConversationNode[]): SessionPreview => {
+  const shown = nodes.slice(0, STORAGE_CONFIG.previewMaxNodes);
+  if (shown.length === 0) return EMPTY_PREVIEW;
+
+  const xs = shown.map(node => node.position.x);
+  const ys = shown.map(node => node.position.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const span = Math.max(width, height, 1);
+
+  // Center the shorter side
+  const offsetX = (span - width) / 2;
+  const offsetY = (span - height) / 2;
+
+  const indexById = new Map(shown.map((node, index) => [node.id, index]));
+  const links: Array<[number, number]> = [];
+  shown.forEach((node, index) => {
+    const parentIndex = node.parentId ? indexById.get(node.parentId) : undefined;
+    if (parentIndex !== undefined) links.push([parentIndex, index]);
+  });
+
+  return {
+    points: shown.map(node => ({
+      x: (node.position.x - minX + offsetX) / span,
+      y: (node.position.y - minY + offsetY) / span,
+    })),
+    links,
+  };
+};
+
+/**
+ * Thumbnail outline of a session, from its nodes when loaded or its saved preview otherwise
+ */
+export const getSessionPreview = (session: ConversationSession): SessionPreview => {
+  const { nodes, metadata } = session.canvas;
+  const isLoaded = nodes.length > 0 || metadata.nodeCount === 0;
+  if (!isLoaded) return session.preview ?? EMPTY_PREVIEW;
+
+  let preview = previewCache.get(nodes);
+  if (!preview) {
+    preview = buildSessionPreview(nodes);
+    previewCache.set(nodes, preview);
+  }
+  return preview;
+};
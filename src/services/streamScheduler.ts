@@ -0,0 +1,73 @@
+import { AI_CONFIG } from '../config/app';
+
+/**
+ * Runs at most a fixed number of generations at once. Later requests wait in
+ * FIFO order and can be cancelled while they wait.
+ */
+export class StreamScheduler {
+  private readonly limit: number;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit);
+  }
+
+  /**
+   * Run a task once a slot is free. Rejects with an AbortError if the signal
+   * aborts before the task starts.
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Generation cancelled', 'AbortError'));
+    }
+
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', cancel);
+        this.active++;
+        resolve();
+      };
+
+      const cancel = () => {
+        const index = this.waiting.indexOf(grant);
+        if (index !== -1) this.waiting.splice(index, 1);
+        reject(new DOMException('Generation cancelled', 'AbortError'));
+      };
+
+      this.waiting.push(grant);
+      signal?.addEventListener('abort', cancel, { once: true });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+let schedulerInstance: StreamScheduler | null = null;
+
+/**
+ * Get the scheduler shared by every generation in the app
+ */
+export const getStreamScheduler = (): StreamScheduler => {
+  if (!schedulerInstance) {
+    schedulerInstance = new StreamScheduler(AI_CONFIG.streaming.maxConcurrent);
+  }
+  return schedulerInstance;
+};
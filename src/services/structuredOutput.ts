@@ -0,0 +1,173 @@
+import type { JsonSchema } from '../types';
+import { AIServiceError } from './aiErrors';
+
+const SCHEMA_TYPES: ReadonlySet<string> = new Set(['object', 'array', 'string', 'number', 'integer', 'boolean', 'null']);
+
+// Keys Gemini's responseSchema understands; anything else is rejected by the API
+const GEMINI_SCHEMA_KEYS: ReadonlySet<string> = new Set([
+  'type', 'description', 'properties', 'required', 'items', 'enum', 'nullable',
+  'minimum', 'maximum', 'minItems', 'maxItems',
+]);
+
+const MAX_REPORTED_ERRORS = 5;
+
+export const EXAMPLE_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      value: { type: 'number' },
+    },
+    required: ['name', 'value'],
+  },
+};
+
+/**
+ * Check a schema's own shape recursively, returning the first problem found
+ */
+const checkSchema = (schema: unknown, path: string): string | undefined => {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return `${path} must be an object`;
+  }
+
+  const { type, properties, items } = schema as JsonSchema;
+  if (type !== undefined && !SCHEMA_TYPES.has(type)) {
+    return `${path}.type "${String(type)}" is not a JSON Schema type`;
+  }
+
+  for (const [key, child] of Object.entries(properties ?? {})) {
+    const problem = checkSchema(child, `${path}.properties.${key}`);
+    if (problem) return problem;
+  }
+  return items !== undefined ? checkSchema(items, `${path}.items`) : undefined;
+};
+
+/**
+ * Parse schema text typed by the user
+ */
+export const parseResponseSchema = (text: string): { schema?: JsonSchema; error?: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+
+  const problem = checkSchema(parsed, 'schema');
+  return problem ? { error: problem } : { schema: parsed as JsonSchema };
+};
+
+/**
+ * Parse a model's JSON answer, tolerating a surrounding Markdown code fence
+ */
+export const parseJsonResponse = (text: string): unknown => {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  return JSON.parse(fenced ? fenced[1] : text);
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Validate a value against a schema, returning one message per violation
+ */
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  if (value === null && schema.nullable) return [];
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return [`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object, got ${describeType(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required ?? [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} is required`);
+      const nested = Object.entries(schema.properties ?? {})
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, child]) => validateAgainstSchema(record[key], child, `${path}.${key}`));
+      return [...missing, ...nested];
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array, got ${describeType(value)}`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} needs at least ${schema.minItems} items`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} allows at most ${schema.maxItems} items`);
+      const itemSchema = schema.items;
+      if (itemSchema) {
+        value.forEach((item, index) => errors.push(...validateAgainstSchema(item, itemSchema, `${path}[${index}]`)));
+      }
+      return errors;
+    }
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number, got ${describeType(value)}`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be at least ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be at most ${schema.maximum}`];
+      return [];
+    }
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type ? [] : [`${path} must be a ${schema.type}, got ${describeType(value)}`];
+    case 'null':
+      return value === null ? [] : [`${path} must be null, got ${describeType(value)}`];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Parse and validate a structured answer, throwing an invalid_output error
+ * that names what is wrong so the node can show it
+ */
+export const validateStructuredResponse = (text: string, schema: JsonSchema): unknown => {
+  let value: unknown;
+  try {
+    value = parseJsonResponse(text);
+  } catch (error) {
+    throw new AIServiceError('invalid_output', {
+      message: 'The response was not valid JSON.',
+      detail: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const errors = validateAgainstSchema(value, schema);
+  if (errors.length > 0) {
+    const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : '';
+    throw new AIServiceError('invalid_output', {
+      detail: errors.slice(0, MAX_REPORTED_ERRORS).join('; ') + more,
+    });
+  }
+
+  return value;
+};
+
+/**
+ * Reduce a schema to the keys Gemini accepts
+ */
+export const toGeminiSchema = (schema: JsonSchema): JsonSchema => {
+  const result: Record<string, unknown> = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) return;
+
+    if (key === 'properties') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([name, child]) => [name, toGeminiSchema(child)])
+      );
+    } else if (key === 'items') {
+      result.items = toGeminiSchema(value as JsonSchema);
+    } else {
+      result[key] = value;
+    }
+  });
+  return result as JsonSchema;
+};
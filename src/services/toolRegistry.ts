@@ -0,0 +1,155 @@
+import type { ConversationNode, ToolCall, ToolDefinition, ToolResult } from '../types';
+import { AI_CONFIG } from '../config/app';
+import { evaluateExpression } from './calculator';
+import { runInSandbox } from './jsSandbox';
+
+// What a tool can see while it runs
+export interface ToolContext {
+  nodes: ConversationNode[]; // Nodes on the active canvas
+  nodeId: string; // Node whose answer is being generated
+  signal?: AbortSignal;
+}
+
+interface LocalTool {
+  label: string;
+  definition: ToolDefinition;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<string>;
+}
+
+const PREVIEW_CHARS = 80;
+
+const preview = (text: string): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > PREVIEW_CHARS ? `${singleLine.slice(0, PREVIEW_CHARS)}…` : singleLine;
+};
+
+const truncate = (content: string): string => {
+  const { maxResultChars } = AI_CONFIG.tools;
+  return content.length > maxResultChars ? `${content.slice(0, maxResultChars)}\n…(truncated)` : content;
+};
+
+const requireString = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Missing "${name}" argument`);
+  }
+  return value;
+};
+
+const calculator: LocalTool = {
+  label: 'Calculator',
+  definition: {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, exp, ln, log (base 10), log2, min, max, pow and the constants pi and e.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression to evaluate, e.g. "(3.5 * 12) ^ 2 / sqrt(7)"' },
+      },
+      required: ['expression'],
+    },
+  },
+  execute: async (args) => String(evaluateExpression(requireString(args, 'expression'))),
+};
+
+const runJavaScript: LocalTool = {
+  label: 'JavaScript sandbox',
+  definition: {
+    name: 'run_javascript',
+    description: 'Run a JavaScript snippet in an isolated sandbox without network access and return its console output and result. A single expression is returned as the result; otherwise use return. Runs are limited to a few seconds.',
+    parameters: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: 'JavaScript source to run' },
+      },
+      required: ['code'],
+    },
+  },
+  execute: async (args, context) => {
+    const run = await runInSandbox(requireString(args, 'code'), { signal: context.signal });
+    const output = [
+      run.logs.length > 0 ? `Console:\n${run.logs.join('\n')}` : '',
+      run.ok ? `Result: ${run.result ?? 'undefined'}` : `Error: ${run.error}`,
+    ].filter(Boolean).join('\n\n');
+
+    if (!run.ok) throw new Error(output);
+    return output;
+  },
+};
+
+const readCanvasNode: LocalTool = {
+  label: 'Read canvas nodes',
+  definition: {
+    name: 'read_canvas_node',
+    description: 'Read another conversation node on this canvas. Call without nodeId to list the nodes with a preview of each prompt, then call with a nodeId to read its full prompt and answer.',
+    parameters: {
+      type: 'object',
+      properties: {
+        nodeId: { type: 'string', description: 'Id of the node to read; omit to list nodes' },
+      },
+    },
+  },
+  execute: async (args, { nodes, nodeId: currentNodeId }) => {
+    const nodeId = typeof args.nodeId === 'string' ? args.nodeId.trim() : '';
+
+    if (!nodeId) {
+      return nodes
+        .map(node => `${node.id}${node.id === currentNodeId ? ' (this node)' : ''}: ${preview(node.currentExchange.userMessage)}`)
+        .join('\n') || 'The canvas has no nodes.';
+    }
+
+    const node = nodes.find(candidate => candidate.id === nodeId);
+    if (!node) throw new Error(`No node with id "${nodeId}" on this canvas`);
+
+    return [
+      `Prompt: ${node.currentExchange.userMessage}`,
+      node.currentExchange.quotedText ? `Quoted excerpt: ${node.currentExchange.quotedText}` : '',
+      `Answer: ${node.currentExchange.aiResponse || '(no answer yet)'}`,
+    ].filter(Boolean).join('\n\n');
+  },
+};
+
+const tools: LocalTool[] = [calculator, runJavaScript, readCanvasNode];
+
+/**
+ * Every built-in tool with a human-readable label, for settings screens
+ */
+export const getAvailableTools = (): Array<{ label: string; definition: ToolDefinition }> => {
+  return tools.map(({ label, definition }) => ({ label, definition }));
+};
+
+/**
+ * Definitions of the named tools, in registry order
+ */
+export const getToolDefinitions = (names: readonly string[]): ToolDefinition[] => {
+  return tools
+    .filter(tool => names.includes(tool.definition.name))
+    .map(tool => tool.definition);
+};
+
+/**
+ * Human-readable label for a tool name
+ */
+export const getToolLabel = (name: string): string => {
+  return tools.find(tool => tool.definition.name === name)?.label ?? name;
+};
+
+/**
+ * Run one tool call. Failures become error results the model can react to
+ * rather than failing the whole answer.
+ */
+export const executeToolCall = async (call: ToolCall, context: ToolContext): Promise<ToolResult> => {
+  const tool = tools.find(candidate => candidate.definition.name === call.name);
+
+  try {
+    if (!tool) throw new Error(`Unknown tool "${call.name}"`);
+
+    const content = await tool.execute(call.arguments, context);
+    return { callId: call.id, name: call.name, content: truncate(content) };
+  } catch (error) {
+    if (context.signal?.aborted) throw error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    return { callId: call.id, name: call.name, content: truncate(message), isError: true };
+  }
+};
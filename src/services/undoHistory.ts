@@ -0,0 +1,224 @@
+import type { ConversationSession, HistoryChange, HistoryEntry, SessionHistory } from '../types';
+import { UI_CONFIG } from '../config/app';
+
+type Fields = Record<string, unknown>;
+export type HistoryDirection = 'undo' | 'redo';
+
+export const EMPTY_SESSION_HISTORY: SessionHistory = { past: [], future: [], bytes: 0 };
+
+// Session fields an undo step can restore; the canvas is tracked record by record
+const SESSION_FIELDS = ['title', 'providerId', 'settings', 'trash'] as const;
+
+const asFields = (record: object) => record as Fields;
+
+const pickSessionFields = (session: ConversationSession): Fields =>
+  Object.fromEntries(SESSION_FIELDS.map(field => [field, session[field]]));
+
+const changedKeys = (a: Fields, b: Fields): string[] =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(key => a[key] !== b[key]);
+
+// Strings are UTF-16 in memory
+const estimateBytes = (value: unknown): number => (JSON.stringify(value)?.length ?? 0) * 2;
+
+/**
+ * Added and removed records are kept whole; edits only hold on to the fields that changed
+ */
+const estimateChangeBytes = ({ before, after }: HistoryChange): number => {
+  if (!before || !after) return estimateBytes(before ?? after);
+  return changedKeys(asFields(before), asFields(after))
+    .reduce((sum, key) => sum + estimateBytes(asFields(before)[key]) + estimateBytes(asFields(after)[key]), 0);
+};
+
+const sumBytes = (entries: HistoryEntry[]) => entries.reduce((sum, entry) => sum + entry.bytes, 0);
+
+const diffRecords = <T extends { id: string }>(target: HistoryChange['target'], before: T[], after: T[]): HistoryChange[] => {
+  const remaining = new Map(before.map(record => [record.id, record]));
+  const changes: HistoryChange[] = [];
+
+  after.forEach(record => {
+    const previous = remaining.get(record.id);
+    remaining.delete(record.id);
+    if (previous !== record) changes.push({ target, id: record.id, before: previous ?? null, after: record });
+  });
+  remaining.forEach((record, id) => changes.push({ target, id, before: record, after: null }));
+
+  return changes;
+};
+
+/**
+ * Records an action changed in a session, compared by object identity
+ */
+export const diffSessions = (before: ConversationSession, after: ConversationSession): HistoryChange[] => {
+  const changes = [
+    ...diffRecords('node', before.canvas.nodes, after.canvas.nodes),
+    ...diffRecords('edge', before.canvas.edges, after.canvas.edges),
+  ];
+
+  const beforeFields = pickSessionFields(before);
+  const afterFields = pickSessionFields(after);
+  if (changedKeys(beforeFields, afterFields).length > 0) {
+    changes.push({ target: 'session', id: after.id, before: beforeFields, after: afterFields });
+  }
+  return changes;
+};
+
+/**
+ * Drop the oldest steps until the history fits its budget, always keeping the latest
+ */
+const trimHistory = (past: HistoryEntry[], future: HistoryEntry[]): SessionHistory => {
+  const { maxEntries, maxBytes } = UI_CONFIG.history;
+  let bytes = sumBytes(past) + sumBytes(future);
+  let start = 0;
+  while (past.length - start > 1 && (past.length - start > maxEntries || bytes > maxBytes)) {
+    bytes -= past[start].bytes;
+    start++;
+  }
+  return { past: past.slice(start), future, bytes };
+};
+
+/**
+ * Add an undo step, merging it into the previous one when both share a recent coalesce key.
+ * Recording a step clears the redo stack.
+ */
+export const pushHistoryEntry = (
+  history: SessionHistory = EMPTY_SESSION_HISTORY,
+  label: string,
+  changes: HistoryChange[],
+  coalesceKey?: string,
+  now = Date.now()
+): SessionHistory => {
+  if (changes.length === 0) return history;
+
+  const last = history.past[history.past.length - 1];
+  const shouldMerge = !!coalesceKey
+    && last?.coalesceKey === coalesceKey
+    && now - last.recordedAt < UI_CONFIG.history.coalesceMs;
+
+  if (shouldMerge) {
+    // Keep the state from before the first edit and take the latest result
+    const merged = [...last.changes];
+    changes.forEach(change => {
+      const index = merged.findIndex(existing => existing.target === change.target && existing.id === change.id);
+      if (index === -1) merged.push(change);
+      else merged[index] = { ...merged[index], after: change.after };
+    });
+    const entry: HistoryEntry = {
+      ...last,
+      changes: merged,
+      bytes: merged.reduce((sum, change) => sum + estimateChangeBytes(change), 0),
+      recordedAt: now,
+    };
+    return trimHistory([...history.past.slice(0, -1), entry], []);
+  }
+
+  const entry: HistoryEntry = {
+    label,
+    changes,
+    bytes: changes.reduce((sum, change) => sum + estimateChangeBytes(change), 0),
+    recordedAt: now,
+    coalesceKey,
+  };
+  return trimHistory([...history.past, entry], []);
+};
+
+/**
+ * Move a record to the other side of a change. Only the fields the change touched
+ * are restored, so later edits to other fields (e.g. a response that finished
+ * streaming after a node was moved) survive.
+ */
+const applyChange = (
+  current: Fields | null,
+  change: HistoryChange,
+  direction: HistoryDirection
+): { next: Fields | null; change: HistoryChange } => {
+  const [source, target] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+
+  if (!target) {
+    // Remember the record as it is now, so the opposite direction brings back its latest version
+    const updated = current
+      ? direction === 'undo' ? { ...change, after: current } : { ...change, before: current }
+      : change;
+    return { next: null, change: updated };
+  }
+  if (!current || !source) return { next: asFields(target), change };
+
+  const keys = changedKeys(asFields(source), asFields(target));
+  const restored = Object.fromEntries(keys.map(key => [key, asFields(target)[key]]));
+  // Likewise keep the latest values of the restored fields, e.g. an answer to an edited prompt
+  const latest = { ...asFields(source), ...Object.fromEntries(keys.map(key => [key, current[key]])) };
+  return {
+    next: { ...current, ...restored },
+    change: direction === 'undo' ? { ...change, after: latest } : { ...change, before: latest },
+  };
+};
+
+const applyToRecords = <T extends { id: string }>(
+  records: T[],
+  change: HistoryChange,
+  direction: HistoryDirection
+): { records: T[]; change: HistoryChange } => {
+  const index = records.findIndex(record => record.id === change.id);
+  const { next, change: updated } = applyChange(index === -1 ? null : asFields(records[index]), change, direction);
+
+  if (!next) return { records: index === -1 ? records : records.filter((_, i) => i !== index), change: updated };
+  const record = next as unknown as T;
+  return {
+    records: index === -1 ? [...records, record] : records.map((existing, i) => (i === index ? record : existing)),
+    change: updated,
+  };
+};
+
+/**
+ * Undo or redo one entry on a session. Returns the updated session and the entry
+ * to put on the opposite stack.
+ */
+export const applyHistoryEntry = (
+  session: ConversationSession,
+  entry: HistoryEntry,
+  direction: HistoryDirection
+): { session: ConversationSession; entry: HistoryEntry } => {
+  let { nodes, edges } = session.canvas;
+  let fields = pickSessionFields(session);
+
+  const ordered = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+  const applied = ordered.map(change => {
+    if (change.target === 'node') {
+      const result = applyToRecords(nodes, change, direction);
+      nodes = result.records;
+      return result.change;
+    }
+    if (change.target === 'edge') {
+      const result = applyToRecords(edges, change, direction);
+      edges = result.records;
+      return result.change;
+    }
+    const result = applyChange(fields, change, direction);
+    fields = result.next ?? fields;
+    return result.change;
+  });
+
+  const now = new Date();
+  const branchCount = edges.filter(edge => edge.type === 'branch').length;
+  const restored = fields as Pick<ConversationSession, typeof SESSION_FIELDS[number]>;
+
+  return {
+    session: {
+      ...session,
+      ...restored,
+      canvas: {
+        ...session.canvas,
+        title: restored.title,
+        nodes,
+        edges,
+        metadata: { ...session.canvas.metadata, nodeCount: nodes.length, branchCount, lastActivity: now },
+        updatedAt: now,
+      },
+      metadata: { ...session.metadata, totalMessages: nodes.length, branchCount, lastActivity: now },
+    },
+    entry: {
+      ...entry,
+      changes: direction === 'undo' ? applied.reverse() : applied,
+      bytes: applied.reduce((sum, change) => sum + estimateChangeBytes(change), 0),
+    },
+  };
+};
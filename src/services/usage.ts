@@ -0,0 +1,154 @@
+import type {
+  AIProviderId,
+  ConversationNode,
+  ModelPrice,
+  NodeMetadata,
+  NodeUsage,
+} from '../types';
+import { AI_CONFIG } from '../config/app';
+import { listRevisions } from './nodeRevisions';
+
+export interface UsageTotals {
+  promptTokens: number;
+  outputTokens: number;
+  cost: number;
+  answerCount: number; // Answers with recorded usage, earlier revisions included
+  unpricedAnswers: number; // Answers whose model has no known price, left out of cost
+  estimatedAnswers: number; // Answers whose token counts were estimated locally
+  averageTimeToFirstTokenMs?: number;
+  averageLatencyMs?: number;
+}
+
+/**
+ * Key a model in the price table
+ */
+export const getPriceKey = (providerId: AIProviderId, model: string): string => `${providerId}:${model}`;
+
+/**
+ * Look up the configured price for a model, falling back to the provider's default
+ */
+export const getConfiguredPrice = (providerId: AIProviderId, model: string): ModelPrice | undefined => {
+  const provider = AI_CONFIG.providers[providerId];
+  if (!provider) return undefined;
+
+  const models: ReadonlyArray<{ id: string; price?: ModelPrice }> = provider.models;
+  const providerDefault = 'defaultPrice' in provider ? provider.defaultPrice : undefined;
+  return models.find(entry => entry.id === model)?.price ?? providerDefault;
+};
+
+/**
+ * Resolve a model's price: the user's override, else the configured one
+ */
+export const getModelPrice = (
+  providerId: AIProviderId,
+  model: string,
+  overrides: Record<string, ModelPrice> = {}
+): ModelPrice | undefined => {
+  return overrides[getPriceKey(providerId, model)] ?? getConfiguredPrice(providerId, model);
+};
+
+/**
+ * Cost of one request's token usage at the given price
+ */
+export const calculateCost = (usage: Pick<NodeUsage, 'promptTokens' | 'outputTokens'>, price: ModelPrice): number => {
+  const unit = AI_CONFIG.usage.priceUnitTokens;
+  return (usage.promptTokens * price.input + usage.outputTokens * price.output) / unit;
+};
+
+/**
+ * Cost of one answer, or undefined when its usage or price is unknown
+ */
+export const getAnswerCost = (metadata: NodeMetadata | undefined, overrides?: Record<string, ModelPrice>): number | undefined => {
+  const { usage, providerId, model } = metadata ?? {};
+  if (!usage || !providerId || !model) return undefined;
+
+  const price = getModelPrice(providerId, model, overrides);
+  return price ? calculateCost(usage, price) : undefined;
+};
+
+/**
+ * Cost of a node's current answer, or undefined when its usage or price is unknown
+ */
+export const getNodeCost = (node: ConversationNode, overrides?: Record<string, ModelPrice>): number | undefined =>
+  getAnswerCost(node.metadata, overrides);
+
+/**
+ * Metadata of every answer a node has had. Regenerating or editing a prompt
+ * keeps the earlier answers as revisions, and their tokens were paid for too.
+ */
+export const listAnswers = (node: ConversationNode): NodeMetadata[] =>
+  listRevisions(node).flatMap(revision => (revision.metadata ? [revision.metadata] : []));
+
+/**
+ * Add up the usage of a set of answers
+ */
+export const summarizeAnswers = (answers: NodeMetadata[], overrides?: Record<string, ModelPrice>): UsageTotals => {
+  const totals: UsageTotals = {
+    promptTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    answerCount: 0,
+    unpricedAnswers: 0,
+    estimatedAnswers: 0,
+  };
+  const firstTokenTimes: number[] = [];
+  const latencies: number[] = [];
+
+  answers.forEach(metadata => {
+    const usage = metadata.usage;
+    if (!usage) return;
+
+    totals.answerCount++;
+    totals.promptTokens += usage.promptTokens;
+    totals.outputTokens += usage.outputTokens;
+    if (usage.estimated) totals.estimatedAnswers++;
+    if (usage.timeToFirstTokenMs !== undefined) firstTokenTimes.push(usage.timeToFirstTokenMs);
+    latencies.push(usage.latencyMs);
+
+    const cost = getAnswerCost(metadata, overrides);
+    if (cost === undefined) {
+      totals.unpricedAnswers++;
+    } else {
+      totals.cost += cost;
+    }
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+
+  totals.averageTimeToFirstTokenMs = average(firstTokenTimes);
+  totals.averageLatencyMs = average(latencies);
+  return totals;
+};
+
+/**
+ * Add up the usage of a set of nodes, every revision of their answers included
+ */
+export const summarizeUsage = (nodes: ConversationNode[], overrides?: Record<string, ModelPrice>): UsageTotals =>
+  summarizeAnswers(nodes.flatMap(listAnswers), overrides);
+
+/**
+ * Format a cost in the configured currency, keeping small amounts readable
+ */
+export const formatCost = (cost: number): string => {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: AI_CONFIG.usage.currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: cost > 0 && cost < 0.01 ? 4 : 2,
+  }).format(cost);
+};
+
+/**
+ * Format a token count compactly, e.g. 12.4k
+ */
+export const formatTokens = (tokens: number): string => {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
+};
+
+/**
+ * Format a duration in milliseconds as ms or seconds
+ */
+export const formatDuration = (ms: number): string => {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+};
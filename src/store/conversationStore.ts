@@ -7,9 +7,31 @@ import type {
   ConversationEdge,
   StreamingState,
   TextSelection,
-  ChatMessage
+  ChatMessage,
+  AIProviderId,
+  ResponseStatus,
+  NodeConfig,
+  SessionSettings,
+  Attachment,
+  VariantGroupKind,
+  StorageIssue,
+  SessionHistory,
+  DeleteScope,
+  TrashItem
 } from '../types';
 import { generateId } from '../utils';
+import { UI_CONFIG } from '../config/app';
+import { mergeGenerationParams } from '../services/generationParams';
+import { getDescendants, selectNodeConversation, selectNodeHistory } from '../services/nodeHistory';
+import { migratePersistedState, MigrationError } from '../services/persistMigrations';
+import { createConversationStorage, type PersistedConversationState } from '../services/conversationStorage';
+import { startRevision, switchRevision } from '../services/nodeRevisions';
+import { applyHistoryEntry, diffSessions, pushHistoryEntry, type HistoryDirection } from '../services/undoHistory';
+
+interface NodeUpdateOptions {
+  recordHistory?: boolean; // Defaults to true; false for changes made by generation rather than the user
+  sessionId?: string; // Defaults to the active session; generation passes the session it started in
+}
 
 interface ConversationStore {
   // State
@@ -18,43 +40,210 @@ interface ConversationStore {
   activeNodeId: string | null;
   streamingState: StreamingState;
   textSelection: TextSelection | null;
+  storageIssue: StorageIssue | null; // Saved data that failed to load this session
+  history: Record<string, SessionHistory>; // Undo and redo steps per session; not saved
 
   // Getters
   getActiveSession: () => ConversationSession | null;
   getActiveCanvas: () => ConversationCanvas | null;
-  getNode: (nodeId: string) => ConversationNode | null;
-  getNodeHistory: (nodeId: string) => ChatMessage[];
+  getSession: (sessionId: string) => ConversationSession | null;
+  getNode: (nodeId: string, sessionId?: string) => ConversationNode | null; // Looks in the active session unless another is given
+  getNodeHistory: (nodeId: string, sessionId?: string) => ChatMessage[];
   getNodeConversation: (nodeId: string) => ChatMessage[];
+  getQueuedNodeIds: () => string[];
 
   // Session Actions
   createSession: (title?: string) => string;
   setActiveSession: (sessionId: string) => void;
+  loadSession: (sessionId: string) => Promise<void>;
+  renameSession: (sessionId: string, title: string) => void;
+  duplicateSession: (sessionId: string) => Promise<string | null>;
   deleteSession: (sessionId: string) => void;
+  setSessionProvider: (sessionId: string, providerId: AIProviderId) => void;
+  updateSessionSettings: (sessionId: string, updates: Partial<SessionSettings>) => void;
 
   // Canvas Actions
   updateCanvasViewport: (viewport: { x: number; y: number; zoom: number }) => void;
   addNode: (node: ConversationNode) => void;
-  updateNode: (nodeId: string, updates: Partial<ConversationNode>) => void;
+  updateNode: (nodeId: string, updates: Partial<ConversationNode>, options?: NodeUpdateOptions) => void;
   removeNode: (nodeId: string) => void;
+  deleteNodes: (nodeId: string, scope: DeleteScope) => string | null; // Moves the nodes to the trash; returns the trash item id
+  restoreTrashItem: (itemId: string) => void;
+  removeTrashItem: (itemId: string) => void; // Deletes the item's nodes for good
+  emptyTrash: () => void;
   addEdge: (edge: ConversationEdge) => void;
   removeEdge: (edgeId: string) => void;
 
   // Node Actions
-  createContextualNode: (userMessage: string, parentNodeId?: string, quotedText?: string, sourceNodeId?: string, position?: { x: number; y: number }) => string;
+  createContextualNode: (userMessage: string, parentNodeId?: string, quotedText?: string, sourceNodeId?: string, position?: { x: number; y: number }, configOverrides?: NodeConfig, attachments?: Attachment[]) => string;
   setActiveNode: (nodeId: string | null) => void;
+  tagVariantGroup: (nodeIds: string[], kind?: VariantGroupKind) => string;
+  pickVariantWinner: (nodeId: string) => void;
+  reviseNode: (nodeId: string, userMessage: string, options?: NodeUpdateOptions) => void; // Keeps the current exchange as a revision and starts an unanswered one; the same prompt regenerates
+  switchNodeRevision: (nodeId: string, index: number) => void;
+
+  // History Actions
+  undo: () => void;
+  redo: () => void;
+  groupHistory: <T>(label: string, run: () => T) => T; // Record everything run changes as one undo step
 
   // Text Selection Actions
   setTextSelection: (selection: TextSelection | null) => void;
 
   // Streaming Actions
+  queueStreaming: (nodeId: string, sessionId: string) => void;
   startStreaming: (nodeId: string) => void;
-  updateStreamingText: (text: string) => void;
-  finishStreaming: () => void;
+  updateStreamingText: (nodeId: string, text: string) => void;
+  finishStreaming: (nodeId: string, status?: ResponseStatus) => void;
+  clearStreaming: (nodeId: string) => void; // Drops the stream without writing its text into the node
 
   // Utility Actions
   clearAll: () => void;
+  reportStorageIssue: (issue: StorageIssue) => void;
+  dismissStorageIssue: () => void;
+  resumeSaving: () => void; // After saved data failed to load, save what is open now in its place
 }
 
+const STORAGE_NAME = 'conversation-storage';
+const STORAGE_VERSION = 6;
+
+// Sessions and nodes are saved as separate IndexedDB records; see conversationStorage
+export const conversationStorage = createConversationStorage({
+  name: STORAGE_NAME,
+  version: STORAGE_VERSION,
+  onIssue: (issue) => useConversationStore.getState().reportStorageIssue(issue),
+});
+
+type StoreSet = (partial: (state: ConversationStore) => Partial<ConversationStore>) => void;
+
+// Above zero while a tracked action runs; nested actions join its undo step
+let historyDepth = 0;
+
+/**
+ * Run a mutation of one session and record what it changed as an undo step
+ */
+const trackHistory = <T>(
+  set: StoreSet,
+  get: () => ConversationStore,
+  sessionId: string | null,
+  label: string,
+  mutate: () => T,
+  coalesceKey?: string
+): T => {
+  if (!sessionId || historyDepth > 0) return mutate();
+
+  const before = get().sessions.find(session => session.id === sessionId);
+  historyDepth++;
+  try {
+    return mutate();
+  } finally {
+    historyDepth--;
+    const after = get().sessions.find(session => session.id === sessionId);
+    if (before && after && before !== after) {
+      set(state => ({
+        history: {
+          ...state.history,
+          [sessionId]: pushHistoryEntry(state.history[sessionId], label, diffSessions(before, after), coalesceKey),
+        },
+      }));
+    }
+  }
+};
+
+/**
+ * Undo or redo the latest step of the active session, moving it to the opposite stack
+ */
+const stepHistory = (set: StoreSet, get: () => ConversationStore, direction: HistoryDirection) => {
+  const { activeSessionId, history } = get();
+  const sessionHistory = activeSessionId ? history[activeSessionId] : undefined;
+  if (!activeSessionId || !sessionHistory) return;
+
+  const [from, to] = direction === 'undo' ? (['past', 'future'] as const) : (['future', 'past'] as const);
+  const entry = sessionHistory[from][sessionHistory[from].length - 1];
+  if (!entry) return;
+
+  set(state => {
+    const session = state.sessions.find(s => s.id === activeSessionId);
+    if (!session) return {};
+
+    const result = applyHistoryEntry(session, entry, direction);
+    const nodeIds = new Set(result.session.canvas.nodes.map(node => node.id));
+    return {
+      sessions: state.sessions.map(s => (s.id === activeSessionId ? result.session : s)),
+      activeNodeId: state.activeNodeId && nodeIds.has(state.activeNodeId) ? state.activeNodeId : null,
+      history: {
+        ...state.history,
+        [activeSessionId]: {
+          ...sessionHistory,
+          [from]: sessionHistory[from].slice(0, -1),
+          [to]: [...sessionHistory[to], result.entry],
+          bytes: sessionHistory.bytes - entry.bytes + result.entry.bytes,
+        },
+      },
+    };
+  });
+};
+
+/**
+ * Replace a session's nodes and edges, keeping its counts in step
+ */
+const withCanvasContents = (
+  session: ConversationSession,
+  nodes: ConversationNode[],
+  edges: ConversationEdge[]
+): ConversationSession => {
+  const now = new Date();
+  const branchCount = edges.filter(edge => edge.type === 'branch').length;
+  return {
+    ...session,
+    canvas: {
+      ...session.canvas,
+      nodes,
+      edges,
+      metadata: { ...session.canvas.metadata, nodeCount: nodes.length, branchCount, lastActivity: now },
+      updatedAt: now,
+    },
+    metadata: { ...session.metadata, totalMessages: nodes.length, branchCount, lastActivity: now },
+  };
+};
+
+/**
+ * Update the active session's trash, e.g. to restore or purge an item
+ */
+const updateActiveTrash = (
+  set: StoreSet,
+  get: () => ConversationStore,
+  label: string,
+  update: (session: ConversationSession) => ConversationSession
+) => {
+  const { activeSessionId } = get();
+  if (!activeSessionId) return;
+
+  trackHistory(set, get, activeSessionId, label, () => set(state => ({
+    sessions: state.sessions.map(session => (session.id === activeSessionId ? update(session) : session)),
+  })));
+};
+
+/**
+ * Rewrite several nodes of the active canvas in a single update
+ */
+const updateActiveCanvasNodes = (
+  set: StoreSet,
+  get: () => ConversationStore,
+  update: (node: ConversationNode) => ConversationNode
+) => {
+  const { activeSessionId } = get();
+  if (!activeSessionId) return;
+
+  set(state => ({
+    sessions: state.sessions.map(session =>
+      session.id === activeSessionId
+        ? { ...session, canvas: { ...session.canvas, nodes: session.canvas.nodes.map(update), updatedAt: new Date() } }
+        : session
+    ),
+  }));
+};
+
 export const useConversationStore = create<ConversationStore>()(
   persist(
     (set, get) => ({
@@ -62,12 +251,10 @@ export const useConversationStore = create<ConversationStore>()(
       sessions: [],
       activeSessionId: null,
       activeNodeId: null,
-      streamingState: {
-        isStreaming: false,
-        currentText: '',
-        nodeId: null,
-      },
+      streamingState: {},
       textSelection: null,
+      storageIssue: null,
+      history: {},
 
       // Getters
       getActiveSession: () => {
@@ -80,45 +267,39 @@ export const useConversationStore = create<ConversationStore>()(
         return session?.canvas || null;
       },
 
-      getNode: (nodeId: string) => {
-        const canvas = get().getActiveCanvas();
+      getSession: (sessionId: string) => {
+        return get().sessions.find(session => session.id === sessionId) || null;
+      },
+
+      getNode: (nodeId: string, sessionId?: string) => {
+        const canvas = sessionId ? get().getSession(sessionId)?.canvas : get().getActiveCanvas();
         if (!canvas) return null;
         return canvas.nodes.find(node => node.id === nodeId) || null;
       },
 
-      getNodeHistory: (nodeId: string) => {
-        const node = get().getNode(nodeId);
-        if (!node) return [];
+      // History is derived from the parent chain, so edits to an ancestor reach every descendant
+      getNodeHistory: (nodeId: string, sessionId?: string) => {
+        const canvas = sessionId ? get().getSession(sessionId)?.canvas : get().getActiveCanvas();
+        if (!canvas) return [];
 
-        // Return a shallow copy to prevent external mutation
-        return node.messages ? [...node.messages] : [];
+        // Return a shallow copy to prevent external mutation of the memoized history
+        return [...selectNodeHistory(canvas.nodes, nodeId)];
       },
+
       getNodeConversation: (nodeId: string) => {
-        const node = get().getNode(nodeId);
-        if (!node) return [];
-        
-        // Return full conversation history including current exchange
-        const messages = [...(node.messages || [])];
-        
-        // Add current exchange if it exists
-        if (node.currentExchange?.userMessage) {
-          messages.push({
-            role: 'user' as const,
-            content: node.currentExchange.userMessage,
-            timestamp: node.createdAt,
-            quotedText: node.currentExchange.quotedText,
-          });
-        }
-        
-        if (node.currentExchange?.aiResponse) {
-          messages.push({
-            role: 'assistant' as const,
-            content: node.currentExchange.aiResponse,
-            timestamp: node.createdAt,
-          });
-        }
-        
-        return messages;
+        const canvas = get().getActiveCanvas();
+        if (!canvas) return [];
+
+        // Full conversation history including the node's own exchange
+        return [...selectNodeConversation(canvas.nodes, nodeId)];
+      },
+
+      // Nodes waiting for a generation slot, in the order they will start
+      getQueuedNodeIds: () => {
+        return Object.entries(get().streamingState)
+          .filter(([, stream]) => stream.status === 'queued')
+          .sort(([, a], [, b]) => a.queuedAt.getTime() - b.queuedAt.getTime())
+          .map(([nodeId]) => nodeId);
       },
 
       // Session Actions
@@ -161,14 +342,156 @@ export const useConversationStore = create<ConversationStore>()(
       },
 
       setActiveSession: (sessionId: string) => {
-        set({ activeSessionId: sessionId });
+        if (get().activeSessionId !== sessionId) {
+          set({ activeSessionId: sessionId, activeNodeId: null, textSelection: null });
+        }
+        void get().loadSession(sessionId);
+      },
+
+      // Only the session open at startup is read in full; others load on demand
+      loadSession: async (sessionId: string) => {
+        try {
+          const nodes = await conversationStorage.loadSession(sessionId);
+          if (!nodes) return;
+
+          const loadedIds = new Set(nodes.map(node => node.id));
+          set(state => ({
+            sessions: state.sessions.map(session =>
+              session.id === sessionId
+                ? {
+                    ...session,
+                    canvas: {
+                      ...session.canvas,
+                      // Keep anything added while the session was loading
+                      nodes: [...nodes, ...session.canvas.nodes.filter(node => !loadedIds.has(node.id))],
+                    },
+                  }
+                : session
+            ),
+          }));
+        } catch (error) {
+          console.error('Failed to load session:', error);
+          get().reportStorageIssue({
+            kind: 'load',
+            message: `This conversation could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      },
+
+      renameSession: (sessionId: string, title: string) => {
+        trackHistory(set, get, sessionId, 'Rename conversation', () => set(state => ({
+          sessions: state.sessions.map(session =>
+            session.id === sessionId
+              ? { ...session, title, canvas: { ...session.canvas, title } }
+              : session
+          ),
+        })));
       },
 
+      // Copy a session with fresh ids, placed right after the original
+      duplicateSession: async (sessionId: string) => {
+        await get().loadSession(sessionId);
+        const source = get().sessions.find(session => session.id === sessionId);
+        if (!source) return null;
+
+        // Trashed nodes get new ids too, so restoring them in one copy leaves the other alone
+        const trash = source.trash ?? [];
+        const allNodes = [...source.canvas.nodes, ...trash.flatMap(item => item.nodes)];
+        const nodeIds = new Map(allNodes.map(node => [node.id, generateId()]));
+        const remap = (id: string) => nodeIds.get(id) ?? id;
+        const copyNode = (node: ConversationNode): ConversationNode => ({
+          ...node,
+          id: remap(node.id),
+          parentId: node.parentId && remap(node.parentId),
+          currentExchange: {
+            ...node.currentExchange,
+            sourceNodeId: node.currentExchange.sourceNodeId && remap(node.currentExchange.sourceNodeId),
+          },
+        });
+        const copyEdge = (edge: ConversationEdge): ConversationEdge => ({
+          ...edge,
+          id: generateId(),
+          source: remap(edge.source),
+          target: remap(edge.target),
+        });
+        const now = new Date();
+        const title = `${source.title} (copy)`;
+
+        const copy: ConversationSession = {
+          ...source,
+          id: generateId(),
+          title,
+          trash: source.trash && trash.map(item => ({
+            ...item,
+            id: generateId(),
+            rootId: remap(item.rootId),
+            nodes: item.nodes.map(copyNode),
+            edges: item.edges.map(copyEdge),
+            detachedChildren: item.detachedChildren?.map(child => ({
+              ...child,
+              id: remap(child.id),
+              parentId: child.parentId && remap(child.parentId),
+            })),
+          })),
+          canvas: {
+            ...source.canvas,
+            id: generateId(),
+            title,
+            nodes: source.canvas.nodes.map(copyNode),
+            edges: source.canvas.edges.map(copyEdge),
+            createdAt: now,
+            updatedAt: now,
+          },
+          metadata: { ...source.metadata, lastActivity: now },
+        };
+
+        set(state => {
+          const sessions = [...state.sessions];
+          sessions.splice(sessions.findIndex(session => session.id === sessionId) + 1, 0, copy);
+          return { sessions };
+        });
+        return copy.id;
+      },
+
+      // Deleting the open session moves to its neighbour in the list
       deleteSession: (sessionId: string) => {
-        set(state => ({
-          sessions: state.sessions.filter(s => s.id !== sessionId),
-          activeSessionId: state.activeSessionId === sessionId ? null : state.activeSessionId,
-        }));
+        const { sessions, activeSessionId } = get();
+        const index = sessions.findIndex(s => s.id === sessionId);
+        const remaining = sessions.filter(s => s.id !== sessionId);
+        const nextActive = activeSessionId === sessionId
+          ? remaining[Math.min(index, remaining.length - 1)]?.id ?? null
+          : activeSessionId;
+
+        set(state => {
+          const history = { ...state.history };
+          delete history[sessionId];
+          return { sessions: remaining, history };
+        });
+        if (nextActive) {
+          get().setActiveSession(nextActive);
+        } else {
+          set({ activeSessionId: null, activeNodeId: null, textSelection: null });
+        }
+      },
+
+      setSessionProvider: (sessionId: string, providerId: AIProviderId) => {
+        trackHistory(set, get, sessionId, 'Change provider', () => set(state => ({
+          sessions: state.sessions.map(session =>
+            session.id === sessionId ? { ...session, providerId } : session
+          ),
+        })));
+      },
+
+      updateSessionSettings: (sessionId: string, updates: Partial<SessionSettings>) => {
+        // Typing into a settings field undoes as one step
+        const coalesceKey = `settings:${sessionId}:${Object.keys(updates).sort().join(',')}`;
+        trackHistory(set, get, sessionId, 'Change settings', () => set(state => ({
+          sessions: state.sessions.map(session =>
+            session.id === sessionId
+              ? { ...session, settings: { ...session.settings, ...updates } }
+              : session
+          ),
+        })), coalesceKey);
       },
 
       // Canvas Actions
@@ -200,7 +523,7 @@ export const useConversationStore = create<ConversationStore>()(
         const sessionIndex = sessions.findIndex(s => s.id === activeSessionId);
         if (sessionIndex === -1) return;
 
-        set(state => {
+        trackHistory(set, get, activeSessionId, 'Add node', () => set(state => {
           const updatedSessions = [...state.sessions];
           const canvas = updatedSessions[sessionIndex].canvas;
           
@@ -223,17 +546,18 @@ export const useConversationStore = create<ConversationStore>()(
             },
           };
           return { sessions: updatedSessions };
-        });
+        }));
       },
 
-      updateNode: (nodeId: string, updates: Partial<ConversationNode>) => {
+      updateNode: (nodeId: string, updates: Partial<ConversationNode>, options?: NodeUpdateOptions) => {
         const { sessions, activeSessionId } = get();
-        if (!activeSessionId) return;
+        const sessionId = options?.sessionId ?? activeSessionId;
+        if (!sessionId) return;
 
-        const sessionIndex = sessions.findIndex(s => s.id === activeSessionId);
+        const sessionIndex = sessions.findIndex(s => s.id === sessionId);
         if (sessionIndex === -1) return;
 
-        set(state => {
+        const mutate = () => set(state => {
           const updatedSessions = [...state.sessions];
           const canvas = updatedSessions[sessionIndex].canvas;
           const nodeIndex = canvas.nodes.findIndex(n => n.id === nodeId);
@@ -261,6 +585,14 @@ export const useConversationStore = create<ConversationStore>()(
           
           return { sessions: updatedSessions };
         });
+
+        // Generation output is not an edit the user would want to undo
+        if (options?.recordHistory === false) {
+          mutate();
+          return;
+        }
+        const isMove = Object.keys(updates).length === 1 && 'position' in updates;
+        trackHistory(set, get, sessionId, isMove ? 'Move node' : 'Edit node', mutate);
       },
 
       removeNode: (nodeId: string) => {
@@ -270,7 +602,7 @@ export const useConversationStore = create<ConversationStore>()(
         const sessionIndex = sessions.findIndex(s => s.id === activeSessionId);
         if (sessionIndex === -1) return;
 
-        set(state => {
+        trackHistory(set, get, activeSessionId, 'Delete node', () => set(state => {
           const updatedSessions = [...state.sessions];
           const canvas = updatedSessions[sessionIndex].canvas;
           
@@ -297,9 +629,98 @@ export const useConversationStore = create<ConversationStore>()(
             },
           };
           return { sessions: updatedSessions };
+        }));
+      },
+
+      deleteNodes: (nodeId: string, scope: DeleteScope) => {
+        const session = get().getActiveSession();
+        const root = session?.canvas.nodes.find(node => node.id === nodeId);
+        if (!session || !root) return null;
+
+        const { nodes, edges } = session.canvas;
+        const descendants = getDescendants(nodes, nodeId);
+        const removed = scope === 'node' ? [root] : scope === 'subtree' ? [root, ...descendants] : descendants;
+        if (removed.length === 0) return null;
+
+        const removedIds = new Set(removed.map(node => node.id));
+        const removedEdges = edges.filter(edge => removedIds.has(edge.source) || removedIds.has(edge.target));
+
+        // Children of a node deleted on its own keep the context they inherited through it
+        const children = scope === 'node' ? nodes.filter(node => node.parentId === nodeId) : [];
+        const detached = new Map(children.map(child => [
+          child.id,
+          { ...child, parentId: null, detachedHistory: selectNodeHistory(nodes, child.id) },
+        ]));
+
+        const item: TrashItem = {
+          id: generateId(),
+          scope,
+          rootId: nodeId,
+          nodes: removed,
+          edges: removedEdges,
+          detachedChildren: children.length > 0
+            ? children.map(({ id, parentId, detachedHistory }) => ({ id, parentId, detachedHistory }))
+            : undefined,
+          deletedAt: new Date(),
+        };
+
+        const label = scope === 'node' ? 'Delete node' : scope === 'subtree' ? 'Delete subtree' : 'Delete branch below';
+        trackHistory(set, get, session.id, label, () => set(state => ({
+          sessions: state.sessions.map(s => {
+            if (s.id !== session.id) return s;
+            const next = withCanvasContents(
+              s,
+              s.canvas.nodes.filter(node => !removedIds.has(node.id)).map(node => detached.get(node.id) ?? node),
+              s.canvas.edges.filter(edge => !removedIds.has(edge.source) && !removedIds.has(edge.target))
+            );
+            return { ...next, trash: [item, ...(s.trash ?? [])].slice(0, UI_CONFIG.trash.maxItems) };
+          }),
+          activeNodeId: state.activeNodeId && removedIds.has(state.activeNodeId) ? null : state.activeNodeId,
+        })));
+
+        return item.id;
+      },
+
+      // Put deleted nodes back where they were, skipping anything that exists again
+      restoreTrashItem: (itemId: string) => {
+        updateActiveTrash(set, get, 'Restore from trash', session => {
+          const item = session.trash?.find(trashed => trashed.id === itemId);
+          if (!item) return session;
+
+          const nodeIds = new Set(session.canvas.nodes.map(node => node.id));
+          const restoredNodes = item.nodes.filter(node => !nodeIds.has(node.id));
+          restoredNodes.forEach(node => nodeIds.add(node.id));
+
+          const edgeIds = new Set(session.canvas.edges.map(edge => edge.id));
+          const restoredEdges = item.edges.filter(edge =>
+            !edgeIds.has(edge.id) && nodeIds.has(edge.source) && nodeIds.has(edge.target)
+          );
+
+          // Children detached by the delete rejoin their parent unless they were moved since
+          const reattach = new Map(item.detachedChildren?.map(child => [child.id, child]));
+          const nodes = session.canvas.nodes.map(node => {
+            const original = reattach.get(node.id);
+            return original && node.parentId === null
+              ? { ...node, parentId: original.parentId, detachedHistory: original.detachedHistory }
+              : node;
+          });
+
+          const next = withCanvasContents(session, [...nodes, ...restoredNodes], [...session.canvas.edges, ...restoredEdges]);
+          return { ...next, trash: session.trash?.filter(trashed => trashed.id !== itemId) };
         });
       },
 
+      removeTrashItem: (itemId: string) => {
+        updateActiveTrash(set, get, 'Delete from trash', session => ({
+          ...session,
+          trash: session.trash?.filter(trashed => trashed.id !== itemId),
+        }));
+      },
+
+      emptyTrash: () => {
+        updateActiveTrash(set, get, 'Empty trash', session => ({ ...session, trash: [] }));
+      },
+
       addEdge: (edge: ConversationEdge) => {
         const { sessions, activeSessionId } = get();
         if (!activeSessionId) return;
@@ -307,7 +728,7 @@ export const useConversationStore = create<ConversationStore>()(
         const sessionIndex = sessions.findIndex(s => s.id === activeSessionId);
         if (sessionIndex === -1) return;
 
-        set(state => {
+        trackHistory(set, get, activeSessionId, 'Connect nodes', () => set(state => {
           const updatedSessions = [...state.sessions];
           const canvas = updatedSessions[sessionIndex].canvas;
           
@@ -330,7 +751,7 @@ export const useConversationStore = create<ConversationStore>()(
             },
           };
           return { sessions: updatedSessions };
-        });
+        }));
       },
 
       removeEdge: (edgeId: string) => {
@@ -340,7 +761,7 @@ export const useConversationStore = create<ConversationStore>()(
         const sessionIndex = sessions.findIndex(s => s.id === activeSessionId);
         if (sessionIndex === -1) return;
 
-        set(state => {
+        trackHistory(set, get, activeSessionId, 'Remove connection', () => set(state => {
           const updatedSessions = [...state.sessions];
           const canvas = updatedSessions[sessionIndex].canvas;
           
@@ -367,49 +788,58 @@ export const useConversationStore = create<ConversationStore>()(
             },
           };
           return { sessions: updatedSessions };
-        });
+        }));
       },
 
       // Create a contextual node with proper conversation history inheritance
-      createContextualNode: (userMessage: string, parentNodeId?: string, quotedText?: string, sourceNodeId?: string, position?: { x: number; y: number }) => {
+      createContextualNode: (userMessage: string, parentNodeId?: string, quotedText?: string, sourceNodeId?: string, position?: { x: number; y: number }, configOverrides?: NodeConfig, attachments?: Attachment[]) => {
         const nodeId = generateId();
-        
-        // Get COMPLETE parent conversation history if parentNodeId is provided
-        // This includes all previous messages AND the parent's current exchange
-        let parentHistory: ChatMessage[] = [];
-        if (parentNodeId) {
-          parentHistory = get().getNodeConversation(parentNodeId); // FIX: Use getNodeConversation instead of getNodeHistory
+
+        // Inherit the parent's settings, letting this branch override them
+        const parentConfig = parentNodeId ? get().getNode(parentNodeId)?.config : undefined;
+        const overrides = Object.fromEntries(
+          Object.entries(configOverrides || {}).filter(([, value]) => value !== undefined)
+        ) as NodeConfig;
+        const config: NodeConfig = { ...parentConfig, ...overrides };
+
+        // Sampling parameters override individually rather than as a block
+        if (overrides.generation) {
+          config.generation = mergeGenerationParams(parentConfig?.generation, overrides.generation);
         }
         
-        // Create new node with inherited conversation history
+        // The node's history comes from walking its parent chain, so nothing is copied here
         const node: ConversationNode = {
           id: nodeId,
           parentId: parentNodeId || null,
-          messages: [...parentHistory], // Inherit COMPLETE conversation history including parent's exchange
           currentExchange: {
             userMessage: userMessage.trim(),
             aiResponse: '', // Will be filled when AI responds
             quotedText: quotedText || undefined,
             sourceNodeId: sourceNodeId || undefined,
+            attachments: attachments?.length ? attachments : undefined,
           },
           position: position || { x: 0, y: 0 },
           createdAt: new Date(),
+          config,
         };
 
-        get().addNode(node);
-        
-        // Create edge if parent exists
-        if (parentNodeId) {
-          const edge: ConversationEdge = {
-            id: generateId(),
-            source: parentNodeId,
-            target: nodeId,
-            type: quotedText ? 'branch' : 'default',
-            animated: quotedText ? true : false,
-            style: quotedText ? { stroke: '#3b82f6', strokeWidth: 2 } : undefined,
-          };
-          get().addEdge(edge);
-        }
+        // The node and its edge undo together
+        trackHistory(set, get, get().activeSessionId, 'Send prompt', () => {
+          get().addNode(node);
+
+          // Create edge if parent exists
+          if (parentNodeId) {
+            const edge: ConversationEdge = {
+              id: generateId(),
+              source: parentNodeId,
+              target: nodeId,
+              type: quotedText ? 'branch' : 'default',
+              animated: quotedText ? true : false,
+              style: quotedText ? { stroke: '#3b82f6', strokeWidth: 2 } : undefined,
+            };
+            get().addEdge(edge);
+          }
+        });
         
         return nodeId;
       },
@@ -419,52 +849,135 @@ export const useConversationStore = create<ConversationStore>()(
         set({ activeNodeId: nodeId });
       },
 
+      // Mark sibling nodes as alternative answers to the same prompt
+      tagVariantGroup: (nodeIds: string[], kind: VariantGroupKind = 'variants') => {
+        const groupId = generateId();
+        const size = nodeIds.length;
+        trackHistory(set, get, get().activeSessionId, 'Group variants', () => updateActiveCanvasNodes(set, get, node => {
+          const index = nodeIds.indexOf(node.id);
+          return index === -1 ? node : { ...node, variant: { groupId, kind, index, size } };
+        }));
+        return groupId;
+      },
+
+      // Pick a node as its group's winner; picking the winner again clears the choice
+      pickVariantWinner: (nodeId: string) => {
+        const variant = get().getNode(nodeId)?.variant;
+        if (!variant) return;
+
+        const isWinner = !variant.isWinner;
+        trackHistory(set, get, get().activeSessionId, isWinner ? 'Pick winner' : 'Clear winner', () => updateActiveCanvasNodes(set, get, node => {
+          if (node.variant?.groupId !== variant.groupId) return node;
+          return { ...node, variant: { ...node.variant, isWinner: node.id === nodeId && isWinner } };
+        }));
+      },
+
+      reviseNode: (nodeId: string, userMessage: string, options?: NodeUpdateOptions) => {
+        const node = get().getNode(nodeId, options?.sessionId);
+        if (!node) return;
+
+        if (options?.recordHistory === false) {
+          get().updateNode(nodeId, startRevision(node, userMessage), options);
+          return;
+        }
+        const label = userMessage.trim() === node.currentExchange.userMessage ? 'Regenerate' : 'Edit prompt';
+        trackHistory(set, get, options?.sessionId ?? get().activeSessionId, label, () => {
+          get().updateNode(nodeId, startRevision(node, userMessage), options);
+        });
+      },
+
+      switchNodeRevision: (nodeId: string, index: number) => {
+        const node = get().getNode(nodeId);
+        const updates = node && switchRevision(node, index);
+        if (!updates) return;
+
+        trackHistory(set, get, get().activeSessionId, 'Switch revision', () => {
+          get().updateNode(nodeId, updates);
+        });
+      },
+
+      // History Actions
+      undo: () => {
+        stepHistory(set, get, 'undo');
+      },
+
+      redo: () => {
+        stepHistory(set, get, 'redo');
+      },
+
+      groupHistory: <T,>(label: string, run: () => T): T => {
+        return trackHistory(set, get, get().activeSessionId, label, run);
+      },
+
       // Text Selection Actions
       setTextSelection: (selection: TextSelection | null) => {
         set({ textSelection: selection });
       },
 
       // Streaming Actions
-      startStreaming: (nodeId: string) => {
-        set({
-          streamingState: {
-            isStreaming: true,
-            currentText: '',
-            nodeId,
-          },
-        });
-      },
-
-      updateStreamingText: (text: string) => {
+      queueStreaming: (nodeId: string, sessionId: string) => {
         set(state => ({
           streamingState: {
             ...state.streamingState,
-            currentText: text,
+            [nodeId]: { status: 'queued', sessionId, currentText: '', queuedAt: new Date() },
           },
         }));
       },
 
-      finishStreaming: () => {
-        const { streamingState } = get();
-        if (streamingState.nodeId && streamingState.currentText) {
-          // Update the node with the final streamed content in the new structure
-          const node = get().getNode(streamingState.nodeId);
+      // Every generation is queued first, which records its session
+      startStreaming: (nodeId: string) => {
+        set(state => {
+          const stream = state.streamingState[nodeId];
+          if (!stream) return state;
+
+          return {
+            streamingState: {
+              ...state.streamingState,
+              [nodeId]: { ...stream, status: 'streaming', currentText: '' },
+            },
+          };
+        });
+      },
+
+      updateStreamingText: (nodeId: string, text: string) => {
+        set(state => {
+          const stream = state.streamingState[nodeId];
+          if (!stream) return state;
+
+          return {
+            streamingState: {
+              ...state.streamingState,
+              [nodeId]: { ...stream, currentText: text },
+            },
+          };
+        });
+      },
+
+      finishStreaming: (nodeId: string, status: ResponseStatus = 'complete') => {
+        const stream = get().streamingState[nodeId];
+        if (stream) {
+          // Write the final streamed content into the node, even if its session is no longer open.
+          // The status marks it answered when no text arrived, too.
+          const node = get().getNode(nodeId, stream.sessionId);
           if (node) {
-            get().updateNode(streamingState.nodeId, {
+            get().updateNode(nodeId, {
               currentExchange: {
                 ...node.currentExchange,
-                aiResponse: streamingState.currentText,
+                aiResponse: stream.currentText,
+                status,
               },
-            });
+            }, { recordHistory: false, sessionId: stream.sessionId });
           }
         }
 
-        set({
-          streamingState: {
-            isStreaming: false,
-            currentText: '',
-            nodeId: null,
-          },
+        get().clearStreaming(nodeId);
+      },
+
+      clearStreaming: (nodeId: string) => {
+        set(state => {
+          const streamingState = { ...state.streamingState };
+          delete streamingState[nodeId];
+          return { streamingState };
         });
       },
 
@@ -474,34 +987,65 @@ export const useConversationStore = create<ConversationStore>()(
           sessions: [],
           activeSessionId: null,
           activeNodeId: null,
-          streamingState: {
-            isStreaming: false,
-            currentText: '',
-            nodeId: null,
-          },
+          streamingState: {},
           textSelection: null,
+          history: {},
         });
       },
+
+      reportStorageIssue: (issue: StorageIssue) => {
+        set({ storageIssue: issue });
+      },
+
+      dismissStorageIssue: () => {
+        set({ storageIssue: null });
+      },
+
+      resumeSaving: () => {
+        conversationStorage.allowWrites();
+        // Saving writes the whole state, replacing what failed to load; its backup is kept
+        set({ storageIssue: null });
+      },
     }),
     {
-      name: 'conversation-storage',
-      version: 4, // Increment version for breaking changes
-      migrate: (persistedState: unknown, version: number) => {
-        // Clear old data to prevent conflicts with new structure
-        if (version < 4) {
-          return {
-            sessions: [],
-            activeSessionId: null,
-            activeNodeId: null,
-            streamingState: {
-              isStreaming: false,
-              currentText: '',
-              nodeId: null,
-            },
-            textSelection: null,
-          };
+      name: STORAGE_NAME,
+      version: STORAGE_VERSION, // Increment and add a step in persistMigrations for breaking changes
+      // Live generations do not survive a reload, so they are never persisted
+      partialize: (state) => ({
+        sessions: state.sessions,
+        activeSessionId: state.activeSessionId,
+        activeNodeId: state.activeNodeId,
+        textSelection: state.textSelection,
+      }),
+      storage: conversationStorage,
+      // Upgrade step by step, keeping the original data under a backup key
+      migrate: async (persistedState: unknown, version: number) => {
+        const backupKey = await conversationStorage.backup(version);
+        try {
+          return migratePersistedState(persistedState, version, STORAGE_VERSION) as unknown as PersistedConversationState;
+        } catch (error) {
+          if (error instanceof MigrationError) error.backupKey = backupKey;
+          throw error;
+        }
+      },
+      // Hydration errors leave the store empty; say so instead of losing the data silently
+      onRehydrateStorage: (initialState) => (_state, error) => {
+        // Saving stays off after a failed load until the user chooses to start over
+        if (!error) {
+          conversationStorage.allowWrites();
+          return;
         }
-        return persistedState;
+
+        console.error('Failed to load saved conversations:', error);
+        const backup = error instanceof MigrationError
+          ? Promise.resolve(error.backupKey)
+          : conversationStorage.backup('unreadable');
+        backup.then(backupKey => initialState.reportStorageIssue({
+          kind: 'load',
+          message: error instanceof Error ? error.message : 'Saved conversations could not be read.',
+          backupKey,
+          savingPaused: true,
+        }));
       },
     }
   )
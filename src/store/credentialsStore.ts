@@ -0,0 +1,191 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AIProviderId, CredentialTestResult, CredentialVault, StoredCredential } from '../types';
+import {
+  checkVerifier,
+  createVerifier,
+  decryptSecret,
+  deriveVaultKey,
+  encryptSecret,
+  generateSalt,
+  maskSecret,
+} from '../services/credentialVault';
+import { generateId } from '../utils';
+
+interface CredentialsStore {
+  // Persisted, encrypted state
+  vault: CredentialVault | null;
+  credentials: StoredCredential[];
+  activeCredentialIds: Partial<Record<AIProviderId, string>>;
+
+  // In-memory only: the derived key and decrypted secrets while unlocked
+  vaultKey: CryptoKey | null;
+  secrets: Record<string, string>;
+
+  // Getters
+  isUnlocked: () => boolean;
+  getActiveApiKey: (providerId: AIProviderId) => string | undefined;
+  hasLockedCredentials: (providerId: AIProviderId) => boolean;
+
+  // Vault Actions
+  createVault: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+  resetVault: () => void;
+
+  // Credential Actions
+  addCredential: (providerId: AIProviderId, label: string, apiKey: string) => Promise<string>;
+  removeCredential: (credentialId: string) => void;
+  setActiveCredential: (providerId: AIProviderId, credentialId: string) => void;
+  recordTestResult: (credentialId: string, result: CredentialTestResult) => void;
+}
+
+export const useCredentialsStore = create<CredentialsStore>()(
+  persist(
+    (set, get) => ({
+      // Initial State
+      vault: null,
+      credentials: [],
+      activeCredentialIds: {},
+      vaultKey: null,
+      secrets: {},
+
+      // Getters
+      isUnlocked: () => get().vaultKey !== null,
+
+      getActiveApiKey: (providerId: AIProviderId) => {
+        const credentialId = get().activeCredentialIds[providerId];
+        return credentialId ? get().secrets[credentialId] : undefined;
+      },
+
+      // Keys exist for the provider but cannot be read until the vault is unlocked
+      hasLockedCredentials: (providerId: AIProviderId) => {
+        return !get().isUnlocked() && get().credentials.some(credential => credential.providerId === providerId);
+      },
+
+      // Vault Actions
+      createVault: async (passphrase: string) => {
+        const salt = generateSalt();
+        const vaultKey = await deriveVaultKey(passphrase, salt);
+        const verifier = await createVerifier(vaultKey);
+
+        set({
+          vault: { salt, verifier },
+          credentials: [],
+          activeCredentialIds: {},
+          vaultKey,
+          secrets: {},
+        });
+      },
+
+      unlock: async (passphrase: string) => {
+        const { vault, credentials } = get();
+        if (!vault) return false;
+
+        const vaultKey = await deriveVaultKey(passphrase, vault.salt);
+        if (!(await checkVerifier(vaultKey, vault.verifier))) {
+          return false;
+        }
+
+        const entries = await Promise.all(
+          credentials.map(async credential => [credential.id, await decryptSecret(vaultKey, credential.secret)] as const)
+        );
+
+        set({ vaultKey, secrets: Object.fromEntries(entries) });
+        return true;
+      },
+
+      lock: () => {
+        set({ vaultKey: null, secrets: {} });
+      },
+
+      // Forget the passphrase and every saved key
+      resetVault: () => {
+        set({
+          vault: null,
+          credentials: [],
+          activeCredentialIds: {},
+          vaultKey: null,
+          secrets: {},
+        });
+      },
+
+      // Credential Actions
+      addCredential: async (providerId: AIProviderId, label: string, apiKey: string) => {
+        const { vaultKey } = get();
+        if (!vaultKey) {
+          throw new Error('Unlock the credential vault before adding keys');
+        }
+
+        const trimmedKey = apiKey.trim();
+        const credential: StoredCredential = {
+          id: generateId(),
+          providerId,
+          label: label.trim() || 'API key',
+          hint: maskSecret(trimmedKey),
+          secret: await encryptSecret(vaultKey, trimmedKey),
+          createdAt: new Date().toISOString(),
+        };
+
+        set(state => ({
+          credentials: [...state.credentials, credential],
+          secrets: { ...state.secrets, [credential.id]: trimmedKey },
+          // The first key for a provider becomes its active key
+          activeCredentialIds: state.activeCredentialIds[providerId]
+            ? state.activeCredentialIds
+            : { ...state.activeCredentialIds, [providerId]: credential.id },
+        }));
+
+        return credential.id;
+      },
+
+      removeCredential: (credentialId: string) => {
+        set(state => {
+          const removed = state.credentials.find(credential => credential.id === credentialId);
+          if (!removed) return state;
+
+          const credentials = state.credentials.filter(credential => credential.id !== credentialId);
+          const secrets = { ...state.secrets };
+          delete secrets[credentialId];
+
+          // Fall back to another key for the same provider, if there is one
+          const activeCredentialIds = { ...state.activeCredentialIds };
+          if (activeCredentialIds[removed.providerId] === credentialId) {
+            const fallback = credentials.find(credential => credential.providerId === removed.providerId);
+            if (fallback) {
+              activeCredentialIds[removed.providerId] = fallback.id;
+            } else {
+              delete activeCredentialIds[removed.providerId];
+            }
+          }
+
+          return { credentials, secrets, activeCredentialIds };
+        });
+      },
+
+      setActiveCredential: (providerId: AIProviderId, credentialId: string) => {
+        set(state => ({
+          activeCredentialIds: { ...state.activeCredentialIds, [providerId]: credentialId },
+        }));
+      },
+
+      recordTestResult: (credentialId: string, result: CredentialTestResult) => {
+        set(state => ({
+          credentials: state.credentials.map(credential =>
+            credential.id === credentialId ? { ...credential, lastTest: result } : credential
+          ),
+        }));
+      },
+    }),
+    {
+      name: 'lattice-credentials',
+      version: 1,
+      // Only encrypted data reaches storage; decrypted keys stay in memory
+      partialize: (state) => ({
+        vault: state.vault,
+        credentials: state.credentials,
+        activeCredentialIds: state.activeCredentialIds,
+      }),
+    }
+  )
+);
@@ -1,2 +1,3 @@
-export { useConversationStore } from './conversationStore';
-export { useUIStore } from './uiStore';
\ No newline at end of file
+export { useConversationStore, conversationStorage } from './conversationStore';
+export { useUIStore } from './uiStore';export { useSettingsStore } from './settingsStore';
+export { useCredentialsStore } from './credentialsStore';
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ModelPrice, SessionSort } from '../types';
+
+interface SettingsStore {
+  // Price overrides keyed by "<providerId>:<model>"
+  priceOverrides: Record<string, ModelPrice>;
+  isSessionSidebarOpen: boolean;
+  sessionSort: SessionSort;
+
+  setModelPrice: (key: string, price: ModelPrice | null) => void;
+  setSessionSidebarOpen: (isOpen: boolean) => void;
+  setSessionSort: (sort: SessionSort) => void;
+}
+
+/**
+ * App-wide preferences that apply across every session
+ */
+export const useSettingsStore = create<SettingsStore>()(
+  persist(
+    (set) => ({
+      priceOverrides: {},
+      isSessionSidebarOpen: true,
+      sessionSort: 'recent',
+
+      // Passing null restores the configured price
+      setModelPrice: (key: string, price: ModelPrice | null) => {
+        set(state => {
+          const priceOverrides = { ...state.priceOverrides };
+          if (price) {
+            priceOverrides[key] = price;
+          } else {
+            delete priceOverrides[key];
+          }
+          return { priceOverrides };
+        });
+      },
+
+      setSessionSidebarOpen: (isOpen: boolean) => {
+        set({ isSessionSidebarOpen: isOpen });
+      },
+
+      setSessionSort: (sort: SessionSort) => {
+        set({ sessionSort: sort });
+      },
+    }),
+    {
+      name: 'lattice-settings',
+      version: 1,
+    }
+  )
+);
@@ -6,6 +6,9 @@ interface UIStore {
   floatingInput: FloatingInputState;
   statusIndicator: StatusIndicatorState;
   windowDimensions: { width: number; height: number };
+  isSettingsOpen: boolean;
+  isCredentialsOpen: boolean;
+  isStorageCleanupOpen: boolean;
   
   // Floating Input Actions
   showFloatingInput: (position: { x: number; y: number }, contextNodeId: string) => void;
@@ -17,6 +20,18 @@ interface UIStore {
   
   // Window Actions
   updateWindowDimensions: (dimensions: { width: number; height: number }) => void;
+
+  // Settings Actions
+  openSettings: () => void;
+  closeSettings: () => void;
+
+  // Credentials Actions
+  openCredentials: () => void;
+  closeCredentials: () => void;
+
+  // Storage Cleanup Actions
+  openStorageCleanup: () => void;
+  closeStorageCleanup: () => void;
 }
 
 export const useUIStore = create<UIStore>((set) => ({
@@ -37,6 +52,10 @@ export const useUIStore = create<UIStore>((set) => ({
     height: typeof window !== 'undefined' ? window.innerHeight : 768 
   },
 
+  isSettingsOpen: false,
+  isCredentialsOpen: false,
+  isStorageCleanupOpen: false,
+
   // Floating Input Actions
   showFloatingInput: (position: { x: number; y: number }, contextNodeId: string) => {
     set({
@@ -81,6 +100,33 @@ export const useUIStore = create<UIStore>((set) => ({
   updateWindowDimensions: (dimensions: { width: number; height: number }) => {
     set({ windowDimensions: dimensions });
   },
+
+  // Settings Actions
+  openSettings: () => {
+    set({ isSettingsOpen: true });
+  },
+
+  closeSettings: () => {
+    set({ isSettingsOpen: false });
+  },
+
+  // Credentials Actions
+  openCredentials: () => {
+    set({ isCredentialsOpen: true });
+  },
+
+  closeCredentials: () => {
+    set({ isCredentialsOpen: false });
+  },
+
+  // Storage Cleanup Actions
+  openStorageCleanup: () => {
+    set({ isStorageCleanupOpen: true });
+  },
+
+  closeStorageCleanup: () => {
+    set({ isStorageCleanupOpen: false });
+  },
 }));
 
 /**
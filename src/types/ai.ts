@@ -0,0 +1,77 @@
+import type { ConversationMessage } from './conversation';
+import type { ToolCall, ToolDefinition } from './tools';
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type AIErrorKind = 'auth' | 'rate_limit' | 'safety' | 'network' | 'invalid_request' | 'invalid_output' | 'unknown';
+
+export interface AIModelInfo {
+  id: string;
+  displayName: string;
+  providerId: AIProviderId;
+}
+
+export interface AIProviderInfo {
+  id: AIProviderId;
+  displayName: string;
+}
+
+// Sampling parameters; unset fields use the provider's defaults
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+}
+
+// JSON Schema subset a structured answer must conform to
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+// Token counts a provider reports for one request
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+// Price of a model per AI_CONFIG.usage.priceUnitTokens tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Per-request options shared by every provider
+export interface AIRequestOptions {
+  model?: string; // Falls back to the provider's default model
+  generation?: GenerationParams;
+  systemInstruction?: string; // Falls back to AI_CONFIG.systemInstruction
+  signal?: AbortSignal; // Aborts the underlying request
+  onUsage?: (usage: TokenUsage) => void; // Called when the provider reports token usage
+  responseSchema?: JsonSchema; // Ask for JSON conforming to this schema instead of prose
+  tools?: ToolDefinition[]; // Tools the model may call
+  onToolCalls?: (calls: ToolCall[]) => void; // Called when the answer stops to call tools
+}
+
+/**
+ * Common contract for every AI backend the canvas can talk to
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly displayName: string;
+  getDefaultModel(): string;
+  generateResponse(messages: ConversationMessage[], options?: AIRequestOptions): Promise<string>;
+  streamResponse(messages: ConversationMessage[], options?: AIRequestOptions): AsyncGenerator<string, void, unknown>;
+  listModels(): Promise<AIModelInfo[]>;
+  verifyCredentials(): Promise<void>; // Throws an AIServiceError if the provider rejects the credentials
+}
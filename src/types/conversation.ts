@@ -1,9 +1,27 @@
+import type { AIErrorKind, AIProviderId, GenerationParams, JsonSchema } from './ai';
+import type { ToolCall, ToolResult, ToolStep } from './tools';
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+// A file attached to a prompt
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  kind: AttachmentKind;
+  data: string; // Base64 for images and PDFs, the file's contents for text
+}
+
 export interface ConversationMessage {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
   quotedText?: string; // Referenced text from previous messages
+  attachments?: Attachment[];
+  toolCalls?: ToolCall[]; // Assistant turn that asked for tools
+  toolResults?: ToolResult[]; // Turn answering the previous turn's tool calls
   metadata?: {
     model?: string;
     tokens?: number;
@@ -19,21 +37,121 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   quotedText?: string;
+  attachments?: Attachment[];
+  toolCalls?: ToolCall[];
+  toolResults?: ToolResult[];
+}
+
+
+// 'stopped' marks a partial answer the user cut short
+export type ResponseStatus = 'complete' | 'stopped';
+
+export interface NodeError {
+  kind: AIErrorKind;
+  message: string;
+  detail?: string;
+  retryable: boolean;
+}
+
+export interface ModelSelection {
+  providerId: AIProviderId;
+  model: string;
+}
+
+// Settings a node passes on to its descendants unless a branch overrides them
+export interface NodeConfig {
+  model?: ModelSelection;
+  generation?: GenerationParams; // Overrides individual session-level parameters
+  personaId?: string | null; // null switches back to the session's own system prompt
+  responseSchema?: JsonSchema | null; // Structured JSON output; null switches back to prose
+}
+
+// A saved system prompt a branch can switch to
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+}
+
+// What was left out of the history the model saw for a node
+export interface ContextCompaction {
+  strategy: 'trimmed' | 'summarized';
+  omittedMessages: number;
+  omittedTokens: number;
+  estimatedTokens: number; // Estimated prompt size actually sent
+  budgetTokens: number;
+  summary?: string;
+}
+
+// What generating a node's answer cost
+export interface NodeUsage {
+  promptTokens: number;
+  outputTokens: number;
+  estimated?: boolean; // Counted locally because the provider reported no usage
+  timeToFirstTokenMs?: number; // Only known for streamed answers
+  latencyMs: number;
+}
+
+export interface NodeMetadata {
+  providerId?: AIProviderId; // Provider that produced aiResponse
+  model?: string; // Model that produced aiResponse
+  compaction?: ContextCompaction; // Set when ancestor turns were trimmed or summarized
+  generation?: GenerationParams; // Effective sampling parameters the answer was generated with
+  persona?: { id: string; name: string }; // Persona whose system prompt was in effect
+  usage?: NodeUsage;
+  parentRevisionId?: string; // Revision of the parent's answer this answer was generated from
+}
+
+// Variants sample one model repeatedly; comparisons ask a different model each
+export type VariantGroupKind = 'variants' | 'comparison';
+
+// Membership in a set of sibling answers generated from the same prompt
+export interface NodeVariant {
+  groupId: string;
+  kind?: VariantGroupKind; // Missing means 'variants'
+  index: number; // Position within the group, from 0
+  size: number;
+  isWinner?: boolean; // Picked as the best answer of the group
+}
+
+// An earlier prompt and answer of a node, kept when the prompt was edited or the answer regenerated
+export interface NodeRevision {
+  id?: string; // Missing for the node's original exchange
+  userMessage: string;
+  aiResponse: string;
+  toolSteps?: ToolStep[];
+  status?: ResponseStatus;
+  error?: NodeError;
+  metadata?: NodeMetadata;
+  createdAt: Date; // When this prompt was sent
 }
 
+// 'sibling' sends the edited prompt as a new branch beside the node; 'replace' revises the node and re-runs everything below it
+export type PromptEditMode = 'sibling' | 'replace';
 
 export interface ConversationNode {
   id: string;
   parentId: string | null;
-  messages: ChatMessage[]; // Full conversation history up to this point
+  detachedHistory?: ChatMessage[]; // Context kept from ancestors that no longer exist; history otherwise comes from the parent chain
   currentExchange: {
     userMessage: string;
     aiResponse: string;
     quotedText?: string; // Selected text that created this branch
     sourceNodeId?: string; // Node where the text was selected from
+    attachments?: Attachment[]; // Files sent with the prompt; descendants inherit them as context
+    toolSteps?: ToolStep[]; // Tool rounds before aiResponse, in order
+    status?: ResponseStatus;
+    error?: NodeError; // Set when generation failed; never sent back to the model
   };
   position: { x: number; y: number };
   createdAt: Date;
+  config?: NodeConfig; // Inherited from the parent unless this branch overrides it
+  metadata?: NodeMetadata;
+  variant?: NodeVariant; // Set when the node was generated as one of several alternatives
+  revisions?: NodeRevision[]; // Every other revision of this node, in the order they were sent
+  revisionIndex?: number; // Position of the current exchange among all revisions; missing means the latest
+  revisionId?: string; // Id of the current revision; missing for the original exchange
+  revisedAt?: Date; // When the current prompt was sent, if it is not the original
 }
 
 export interface ConversationEdge {
@@ -64,10 +182,42 @@ export interface ConversationCanvas {
   updatedAt: Date;
 }
 
+// Session-wide defaults that branches can override
+export interface SessionSettings {
+  generation?: GenerationParams;
+  systemPrompt?: string; // Replaces the app's default system instruction for this session
+  personas?: Persona[];
+  tools?: string[]; // Names of the tools the model may call
+}
+
+// 'node': only this node; 'subtree': it and everything below; 'descendants': everything below, keeping it
+export type DeleteScope = 'node' | 'subtree' | 'descendants';
+
+// Nodes removed by one delete, kept so they can be restored where they were
+export interface TrashItem {
+  id: string;
+  scope: DeleteScope;
+  rootId: string; // Node the delete was started from
+  nodes: ConversationNode[];
+  edges: ConversationEdge[];
+  detachedChildren?: Array<Pick<ConversationNode, 'id' | 'parentId' | 'detachedHistory'>>; // Children cut loose when only their parent was deleted, as they were before
+  deletedAt: Date;
+}
+
+// Outline of a canvas small enough to keep with the session, for thumbnails
+export interface SessionPreview {
+  points: Array<{ x: number; y: number }>; // Node positions scaled into 0..1
+  links: Array<[number, number]>; // Parent and child, as indexes into points
+}
+
 export interface ConversationSession {
   id: string;
   title: string;
   canvas: ConversationCanvas;
+  providerId?: AIProviderId; // Backend used for new requests; defaults to the configured provider
+  settings?: SessionSettings;
+  preview?: SessionPreview; // Saved outline, for thumbnails while the canvas is not loaded
+  trash?: TrashItem[]; // Deleted nodes that can be restored, newest first
   metadata: {
     totalMessages: number;
     branchCount: number;
@@ -75,6 +225,40 @@ export interface ConversationSession {
   };
 }
 
+// One record touched by an undoable action; null means it did not exist on that side
+export interface HistoryChange {
+  target: 'node' | 'edge' | 'session';
+  id: string;
+  before: object | null;
+  after: object | null;
+}
+
+export interface HistoryEntry {
+  label: string; // e.g. "Move node", shown on the undo button
+  changes: HistoryChange[];
+  bytes: number; // Approximate size of the data the entry keeps
+  recordedAt: number;
+  coalesceKey?: string; // Entries with the same key recorded close together are merged
+}
+
+// Undo and redo stacks of one session, most recent last
+export interface SessionHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  bytes: number;
+}
+
+// 'load': saved data failed to load or upgrade; 'quota': storage is (nearly) full; 'write': saving failed
+export type StorageIssueKind = 'load' | 'quota' | 'write';
+
+// A problem with saved conversations worth telling the user about
+export interface StorageIssue {
+  kind: StorageIssueKind;
+  message: string;
+  backupKey?: string; // Key of a copy of the data that failed to load
+  savingPaused?: boolean; // Nothing is saved until the user starts over, so the data that failed to load is not overwritten
+}
+
 export interface BranchingContext {
   sessionId: string;
   nodeId: string;
@@ -82,12 +266,16 @@ export interface BranchingContext {
   position?: { x: number; y: number };
 }
 
-export interface StreamingState {
-  isStreaming: boolean;
+export interface NodeStreamState {
+  status: 'queued' | 'streaming'; // Queued requests wait for a free concurrency slot
+  sessionId: string; // Session the node belongs to; generation continues after switching away
   currentText: string;
-  nodeId: string | null;
+  queuedAt: Date;
 }
 
+// Live generations keyed by node id
+export type StreamingState = Record<string, NodeStreamState>;
+
 export interface TextSelection {
   nodeId: string;
   startIndex: number;
@@ -0,0 +1,30 @@
+import type { AIProviderId } from './ai';
+
+export interface EncryptedSecret {
+  iv: string; // Base64
+  ciphertext: string; // Base64, AES-GCM output including the auth tag
+}
+
+// Result of the last connection test made with a key
+export interface CredentialTestResult {
+  ok: boolean;
+  message?: string;
+  testedAt: string; // ISO timestamp
+}
+
+// An API key saved in the browser, encrypted with the user's passphrase
+export interface StoredCredential {
+  id: string;
+  providerId: AIProviderId;
+  label: string;
+  hint: string; // Masked tail of the key, readable while the vault is locked
+  secret: EncryptedSecret;
+  createdAt: string; // ISO timestamp
+  lastTest?: CredentialTestResult;
+}
+
+// Salt and passphrase check for the credential vault
+export interface CredentialVault {
+  salt: string;
+  verifier: EncryptedSecret;
+}
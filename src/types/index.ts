@@ -1,2 +1,5 @@
 export * from './conversation';
-export * from './ui';
\ No newline at end of file
+export * from './ui';
+export * from './ai';
+export * from './credentials';
+export * from './tools';
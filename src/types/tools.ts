@@ -0,0 +1,39 @@
+// JSON Schema subset describing a tool's arguments
+export interface ToolParameterSchema {
+  type: 'object';
+  properties: Record<string, {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: string[];
+  }>;
+  required?: string[];
+}
+
+// A tool offered to the model
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+// A call the model asked for
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+// One round of tool use inside an answer: what the model said before
+// asking for the calls, the calls, and what they returned
+export interface ToolStep {
+  text: string;
+  calls: ToolCall[];
+  results: ToolResult[];
+}
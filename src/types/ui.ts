@@ -1,3 +1,6 @@
+import type { Attachment, ModelSelection } from './conversation';
+import type { GenerationParams, JsonSchema } from './ai';
+
 export interface FloatingInputState {
   isVisible: boolean;
   position: { x: number; y: number };
@@ -23,3 +26,23 @@ export interface CanvasConfig {
     panExtent: [[number, number], [number, number]];
   };
 }
+
+// Order of the session list
+export type SessionSort = 'recent' | 'created' | 'title';
+
+// How many alternative answers to generate for one prompt
+export interface VariantOptions {
+  count: number;
+  varyTemperature?: boolean; // Spread temperatures across the variants instead of repeating one
+}
+
+// Extra choices made in the branch input alongside the prompt
+export interface BranchSubmitOptions {
+  model?: ModelSelection; // Overrides the inherited model for this branch
+  generation?: GenerationParams; // Overrides individual inherited sampling parameters
+  personaId?: string | null; // Switches persona from this branch onward; null means the session prompt
+  attachments?: Attachment[];
+  responseSchema?: JsonSchema | null; // Switches structured output on (a schema) or off (null) from this branch onward
+  variants?: VariantOptions; // Generates several sibling nodes from the prompt
+  compareModels?: ModelSelection[]; // Sends the prompt to each model as its own sibling node
+}
@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AI_PROVIDER?: string;
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_OPENAI_COMPATIBLE_BASE_URL?: string;
+  readonly VITE_OPENAI_COMPATIBLE_API_KEY?: string;
+  readonly VITE_OPENAI_COMPATIBLE_MODEL?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_CHUNK_DELAY_MS?: string;
+  readonly VITE_MOCK_ERROR?: string;
+  readonly VITE_AI_FIXTURES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}